@@ -1,23 +1,86 @@
-import { FormEvent, useEffect, useMemo, useState } from 'react'
-import { socket } from './lib/socket'
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { clearSession, getProfileKey, loadSession, saveSession, socket } from './lib/socket'
+import { syncClock } from './lib/clock'
+import { Countdown } from './components/Countdown'
 import { DrawingCanvas } from './components/DrawingCanvas'
+import { Gallery, type GalleryEntry } from './components/Gallery'
+import { GlobalLeaderboard } from './components/GlobalLeaderboard'
+import { LobbyBrowser } from './components/LobbyBrowser'
+import { PackPicker } from './components/PackPicker'
+import { Podium, type PodiumEntry } from './components/Podium'
+import { ReplayPlayer } from './components/ReplayPlayer'
+import { RoomAccessPanel } from './components/RoomAccessPanel'
+import { RoomSettingsPanel, type RoomSettings } from './components/RoomSettingsPanel'
+import { WebhookPanel } from './components/WebhookPanel'
+import { isMessageKey, LanguageSwitcher, useI18n, type Params, type ServerError } from './lib/i18n'
+import { batchToStrokes, decodeBatches, type Stroke, type StrokeBatch } from './lib/strokes'
 
-type Player = { id: string; name: string; isHost: boolean; wins: number; losses: number }
-type ChatMsg = { playerId: string; name: string; message: string; ts: number }
+type Player = { id: string; profileId: string | null; name: string; isHost: boolean; connected: boolean; bot?: boolean }
+type JoinResponse = { code: string; playerId: string; token: string; spectator?: boolean } | ServerError
+type VoteRecord = { votes: Record<string, string>; tally: Record<string, number>; eliminated: string | null; tie: boolean }
+type ScoreBreakdown = { correctVotes: number; speedBonus: number; survived: number; correctGuess: number; unsuspected: number; total: number }
+type RoundResults = {
+  imposterIds: string[]
+  realWord: string | null
+  // what the imposters were told
+  mode: RoomSettings['mode']
+  fakeWord: string | null
+  category: string | null
+  imposterWins: boolean
+  voteHistory: VoteRecord[]
+  guessedWord?: string
+  points: Record<string, ScoreBreakdown>
+  matchOver: boolean
+  podium: PodiumEntry[] | null
+}
+type GuessEvent = { playerId: string; guess: string; correct: boolean; lastChance: boolean; attemptsLeft: number }
+type ChatMsg = { playerId: string | null; name: string; message: string; ts: number; system?: { key: string; params?: Params } }
 type RoomView = {
   code: string
-  phase: 'lobby' | 'drawing' | 'voting' | 'results'
+  phase: 'lobby' | 'drawing' | 'discussion' | 'voting' | 'lastChance' | 'results'
+  language: string
+  locked: boolean
+  hasPassword: boolean
+  isPublic: boolean
+  name: string
   players: Player[]
+  spectators: Player[]
+  settings: RoomSettings
+  turnOrder: string[]
   turnIndex: number
   round: number
-  imposterId: string | null
+  packIds: string[]
+  imposterIds: string[]
+  eliminated: { id: string; wasImposter: boolean }[]
+  votedIds: string[]
+  voteCandidates: string[] | null
+  lastChanceId: string | null
   currentDrawerId: string | null
-  drawing: any[]
+  drawing: Stroke[]
+  gallery: GalleryEntry[]
   chat: ChatMsg[]
   turnEndsAt: number | null
-  leaderboard: { id: string; name: string; wins: number; losses: number }[]
+  // set instead of turnEndsAt while the host has paused the timer
+  pausedTimeLeft: number | null
+  matchRound: number
+  // current match, highest total first; rounds holds each round's points
+  leaderboard: { id: string; name: string; points: number; rounds: (number | null)[] }[]
+}
+
+// room:update sends drawings as stroke batches
+type RoomPayload = Omit<RoomView, 'drawing' | 'gallery'> & {
+  drawing: StrokeBatch[]
+  gallery: (Omit<GalleryEntry, 'strokes'> & { strokes: StrokeBatch[] })[]
 }
 
+const SCORE_PARTS = ['correctVotes', 'speedBonus', 'survived', 'correctGuess', 'unsuspected'] as const
+
+const decodeRoom = (payload: RoomPayload): RoomView => ({
+  ...payload,
+  drawing: decodeBatches(payload.drawing),
+  gallery: payload.gallery.map((entry) => ({ ...entry, strokes: decodeBatches(entry.strokes) }))
+})
+
 export function App() {
   const [connected, setConnected] = useState(false)
   const [name, setName] = useState('')
@@ -25,34 +88,87 @@ export function App() {
   const [room, setRoom] = useState<RoomView | null>(null)
   const [playerId, setPlayerId] = useState('')
   const [word, setWord] = useState<string | null>(null)
+  const [category, setCategory] = useState<string | null>(null)
   const [isImposter, setIsImposter] = useState(false)
+  const [fellowImposters, setFellowImposters] = useState<string[]>([])
+  const [guessesLeft, setGuessesLeft] = useState(0)
+  const [guessLog, setGuessLog] = useState<GuessEvent[]>([])
+  const [myVote, setMyVote] = useState<string | null>(null)
+  const [results, setResults] = useState<RoundResults | null>(null)
+  const [replayRound, setReplayRound] = useState<number | null>(null)
+  const [leaderboardTab, setLeaderboardTab] = useState<'room' | 'global'>('room')
   const [tool, setTool] = useState<'brush' | 'eraser'>('brush')
   const [color, setColor] = useState('#38bdf8')
   const [size, setSize] = useState(4)
   const [message, setMessage] = useState('')
   const [guess, setGuess] = useState('')
   const [darkMode, setDarkMode] = useState(true)
+  const [notice, setNotice] = useState<string | null>(null)
+  const i18n = useI18n()
+  const { t, lang, errorText } = i18n
+  // socket listeners are registered once and read the current language through this ref
+  const i18nRef = useRef(i18n)
+  i18nRef.current = i18n
 
   useEffect(() => {
     if (darkMode) document.documentElement.classList.add('dark')
     else document.documentElement.classList.remove('dark')
   }, [darkMode])
 
+  useEffect(() => {
+    if (!notice) return
+    const timer = setTimeout(() => setNotice(null), 4000)
+    return () => clearTimeout(timer)
+  }, [notice])
+
   useEffect(() => {
     socket.connect()
-    socket.on('connect', () => setConnected(true))
+    socket.on('connect', () => {
+      setConnected(true)
+      void syncClock()
+      const session = loadSession()
+      const urlCode = new URLSearchParams(window.location.search).get('code')
+      if (!session || (urlCode && urlCode.toUpperCase() !== session.code)) return
+      socket.emit('room:rejoin', { code: session.code, token: session.token }, (res: JoinResponse) => {
+        if ('error' in res) return clearSession()
+        setPlayerId(res.playerId)
+      })
+    })
     socket.on('disconnect', () => setConnected(false))
-    socket.on('room:update', (payload) => setRoom(payload))
-    socket.on('word:assigned', ({ word: assigned, isImposter }) => {
+    socket.on('room:update', (payload: RoomPayload) => setRoom(decodeRoom(payload)))
+    socket.on('room:closed', () => {
+      clearSession()
+      setRoom(null)
+    })
+    socket.on('room:kicked', ({ banned }: { banned: boolean }) => {
+      clearSession()
+      setRoom(null)
+      window.history.replaceState({}, '', window.location.pathname)
+      alert(i18nRef.current.t(banned ? 'room.banned' : 'room.kicked'))
+    })
+    socket.on('word:assigned', ({ word: assigned, category, isImposter, fellowImposters, guessesLeft }) => {
       setWord(assigned)
+      setCategory(category ?? null)
       setIsImposter(isImposter)
+      setGuessesLeft(guessesLeft ?? 0)
+      setGuessLog([])
+      setFellowImposters(fellowImposters ?? [])
+    })
+    socket.on('draw:points', (batch: StrokeBatch) => {
+      const strokes = batchToStrokes(batch)
+      setRoom((prev) => (prev ? { ...prev, drawing: [...prev.drawing, ...strokes] } : prev))
     })
-    socket.on('draw:stroke', (stroke) => {
-      setRoom((prev) => (prev ? { ...prev, drawing: [...prev.drawing, stroke] } : prev))
+    socket.on('draw:sync', ({ drawing }: { drawing: StrokeBatch[] }) => {
+      setRoom((prev) => (prev ? { ...prev, drawing: decodeBatches(drawing) } : prev))
     })
+    socket.on('phase:voting', () => setMyVote(null))
+    socket.on('imposter:guessed', (event: GuessEvent) => setGuessLog((prev) => [...prev, event]))
+    socket.on('phase:results', (payload: RoundResults) => setResults(payload))
     socket.on('chat:new', (msg) => {
       setRoom((prev) => (prev ? { ...prev, chat: [...prev.chat, msg] } : prev))
     })
+    // errors for events sent without an ack, e.g. rate-limited strokes
+    socket.on('server:error', (err: ServerError) => setNotice(i18nRef.current.errorText(err)))
     socket.on('sfx', (kind: 'turn' | 'voting') => {
       const ctx = new AudioContext()
       const o = ctx.createOscillator()
@@ -79,73 +195,154 @@ export function App() {
   const isHost = useMemo(() => room?.players.find((p) => p.id === playerId)?.isHost, [room, playerId])
   const currentDrawer = room?.players.find((p) => p.id === room.currentDrawerId)
   const isMyTurn = room?.currentDrawerId === playerId
-  const timerLeft = room?.turnEndsAt ? Math.max(0, Math.ceil((room.turnEndsAt - Date.now()) / 1000)) : null
+  const isSpectator = !!room?.spectators.some((p) => p.id === playerId)
+  const nameOf = (id: string) => room?.players.find((p) => p.id === id)?.name ?? '?'
+  const pointsOf = (id: string) => room?.leaderboard.find((entry) => entry.id === id)?.points ?? 0
+  const isEliminated = (id: string) => !!room?.eliminated.some((e) => e.id === id)
+  const chatMuted = !!room?.settings.quietWhileDrawing && room.phase === 'drawing'
+  const systemText = ({ key, params }: NonNullable<ChatMsg['system']>) => {
+    const messageKey = `system.${key}`
+    return isMessageKey(messageKey) ? t(messageKey, params) : ''
+  }
+
+  const enterRoom = (res: JoinResponse) => {
+    if ('error' in res) return alert(errorText(res))
+    setPlayerId(res.playerId)
+    saveSession({ code: res.code, playerId: res.playerId, token: res.token })
+    window.history.replaceState({}, '', `?code=${res.code}`)
+  }
 
   const createRoom = () => {
-    socket.emit('room:create', { name }, (res: { code?: string; playerId?: string; error?: string }) => {
-      if (res.error) return alert(res.error)
-      if (res.code) {
-        setPlayerId(res.playerId || '')
-        window.history.replaceState({}, '', `?code=${res.code}`)
+    socket.emit('room:create', { name, profileKey: getProfileKey(), language: lang }, enterRoom)
+  }
+
+  const joinRoom = (code: string, spectate = false, password?: string) => {
+    socket.emit('room:join', { code: code.toUpperCase(), name, profileKey: getProfileKey(), spectate, password }, (res: JoinResponse) => {
+      if ('error' in res && (res.error === 'WRONG_PASSWORD' || res.error === 'PASSWORD_REQUIRED')) {
+        const entered = prompt(errorText(res))
+        if (entered) joinRoom(code, spectate, entered)
+        return
       }
+      enterRoom(res)
+    })
+  }
+
+  const moderate = (event: 'host:kick' | 'host:transfer', payload: { playerId: string; ban?: boolean }) => {
+    socket.emit(event, payload, (res: Partial<ServerError>) => {
+      if (res.error) alert(errorText(res))
     })
   }
 
-  const joinRoom = () => {
-    socket.emit('room:join', { code: roomCodeInput.toUpperCase(), name }, (res: any) => {
-      if (res.error) return alert(res.error)
-      setPlayerId(res.playerId)
-      window.history.replaceState({}, '', `?code=${res.code}`)
+  const addBot = () => {
+    socket.emit('bot:add', {}, (res: Partial<ServerError>) => {
+      if (res.error) alert(errorText(res))
     })
   }
 
+  const takeSeat = () => {
+    socket.emit('spectator:seat', {}, (res: Partial<ServerError>) => {
+      if (res.error) alert(errorText(res))
+    })
+  }
+
+  const pauseTimer = (paused: boolean) => {
+    socket.emit('timer:pause', { paused }, (res: Partial<ServerError>) => {
+      if (res.error) setNotice(errorText(res))
+    })
+  }
+
+  const undo = useCallback(() => socket.emit('draw:undo'), [])
+  const redo = useCallback(() => socket.emit('draw:redo'), [])
+
   const sendMessage = (e: FormEvent) => {
     e.preventDefault()
     if (!message.trim()) return
-    socket.emit('chat:send', { message })
-    setMessage('')
+    socket.emit('chat:send', { message }, (res: Partial<ServerError>) => {
+      if (res.error) return setNotice(errorText(res))
+      setMessage('')
+    })
+  }
+
+  const vote = (targetId: string) => {
+    socket.emit('vote:submit', { targetId }, (res: Partial<ServerError>) => {
+      if (res.error) return alert(errorText(res))
+      setMyVote(targetId)
+    })
   }
 
   const submitGuess = () => {
-    socket.emit('imposter:guess', { guess }, (res: { correct: boolean }) => {
-      alert(res.correct ? 'Richtig! Du gewinnst als Imposter.' : 'Leider falsch.')
+    socket.emit('imposter:guess', { guess }, (res: { correct?: boolean; attemptsLeft?: number } & Partial<ServerError>) => {
+      if (res.error) return alert(errorText(res))
+      setGuessesLeft(res.attemptsLeft ?? 0)
+      setGuess('')
+      alert(t(res.correct ? 'guess.correctAlert' : 'guess.wrongAlert'))
     })
   }
 
   if (!room) {
     return (
       <main className="mx-auto flex min-h-screen max-w-xl flex-col justify-center gap-4 px-4 text-slate-100">
-        <h1 className="text-3xl font-black">🎨 Drawing Imposter</h1>
-        <p className="text-sm text-slate-300">Multiplayer Drawing Game mit Lobby-Code und Echtzeit-Sync</p>
-        <input className="rounded bg-slate-800 p-3" placeholder="Dein Name" value={name} onChange={(e) => setName(e.target.value)} />
+        <div className="flex items-center justify-between gap-2">
+          <h1 className="text-3xl font-black">🎨 Drawing Imposter</h1>
+          <LanguageSwitcher />
+        </div>
+        <p className="text-sm text-slate-300">{t('app.tagline')}</p>
+        <input className="rounded bg-slate-800 p-3" placeholder={t('start.namePlaceholder')} maxLength={24} value={name} onChange={(e) => setName(e.target.value)} />
         <div className="grid grid-cols-2 gap-2">
-          <button onClick={createRoom} className="rounded bg-cyan-500 p-3 font-semibold text-slate-950">Lobby erstellen</button>
-          <button onClick={joinRoom} className="rounded bg-emerald-500 p-3 font-semibold text-slate-950">Lobby beitreten</button>
+          <button onClick={createRoom} className="rounded bg-cyan-500 p-3 font-semibold text-slate-950">{t('start.create')}</button>
+          <button onClick={() => joinRoom(roomCodeInput)} className="rounded bg-emerald-500 p-3 font-semibold text-slate-950">{t('start.join')}</button>
         </div>
-        <input className="rounded bg-slate-800 p-3 uppercase" placeholder="Code (z.B. ABC123)" value={roomCodeInput} onChange={(e) => setRoomCodeInput(e.target.value)} />
-        <div className="text-xs text-slate-400">Status: {connected ? 'Verbunden' : 'Nicht verbunden'}</div>
+        <button onClick={() => joinRoom(roomCodeInput, true)} className="rounded bg-slate-700 p-2 text-sm">{t('start.spectate')}</button>
+        <input className="rounded bg-slate-800 p-3 uppercase" placeholder={t('start.codePlaceholder')} value={roomCodeInput} onChange={(e) => setRoomCodeInput(e.target.value)} />
+        <div className="text-xs text-slate-400">{t(connected ? 'start.connected' : 'start.disconnected')}</div>
+        <LobbyBrowser onJoin={joinRoom} />
       </main>
     )
   }
 
   return (
     <main className="min-h-screen bg-slate-950 p-2 text-slate-100 md:p-4">
+      {notice && (
+        <div className="fixed left-1/2 top-3 z-50 -translate-x-1/2 rounded bg-rose-600 px-4 py-2 text-sm shadow-lg">{notice}</div>
+      )}
       <div className="mx-auto grid max-w-7xl gap-3 lg:grid-cols-[2fr_1fr]">
         <section className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/50 p-3">
           <header className="flex flex-wrap items-center justify-between gap-2">
             <div>
-              <h2 className="text-lg font-bold">Lobby {room.code} · Runde {room.round}</h2>
-              <p className="text-sm text-slate-300">Wort: <strong>{word ?? 'Warte auf Start…'}</strong> {isImposter ? '(Imposter)' : ''}</p>
+              <h2 className="text-lg font-bold">
+                {t('room.title', { code: room.code, round: room.round })} {room.locked ? '🔒' : ''} {room.hasPassword ? '🔑' : ''}
+              </h2>
+              {isSpectator ? (
+                <p className="text-sm text-slate-300">{t('room.spectating')}</p>
+              ) : (
+                <p className="text-sm text-slate-300">{t('room.word')} <strong>{word ?? (!isImposter ? t('room.waitingForStart') : category ? t('room.onlyCategory', { category }) : t('room.noWord'))}</strong> {isImposter ? t('room.imposterTag') : ''}</p>
+              )}
+              {fellowImposters.length > 0 && <p className="text-xs text-fuchsia-300">{t('room.fellowImposters', { names: fellowImposters.map(nameOf).join(', ') })}</p>}
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <LanguageSwitcher />
+              <span>{t('room.timer')} <Countdown endsAt={room.turnEndsAt} pausedLeft={room.pausedTimeLeft} /></span>
+              {isHost && (room.turnEndsAt !== null || room.pausedTimeLeft !== null) && (
+                <button onClick={() => pauseTimer(room.pausedTimeLeft === null)} className="rounded bg-slate-700 px-2 py-1">
+                  {t(room.pausedTimeLeft === null ? 'room.pause' : 'room.resume')}
+                </button>
+              )}
             </div>
-            <div className="text-sm">Timer: <span className="font-bold">{timerLeft ?? '-'}s</span></div>
           </header>
 
+          {isSpectator && (room.phase === 'lobby' || room.phase === 'results') && room.settings.allowSpectatorSeats && (
+            <button onClick={takeSeat} className="rounded bg-emerald-500 px-3 py-2 font-semibold text-slate-950">{t('room.takeSeat')}</button>
+          )}
+
           <div className="flex flex-wrap gap-2">
-            <button onClick={() => setTool('brush')} className={`rounded px-3 py-1 ${tool === 'brush' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>Pinsel</button>
-            <button onClick={() => setTool('eraser')} className={`rounded px-3 py-1 ${tool === 'eraser' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>Radierer</button>
+            <button onClick={() => setTool('brush')} className={`rounded px-3 py-1 ${tool === 'brush' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>{t('tools.brush')}</button>
+            <button onClick={() => setTool('eraser')} className={`rounded px-3 py-1 ${tool === 'eraser' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>{t('tools.eraser')}</button>
             <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="h-9 w-12 rounded" />
             <input type="range" min={2} max={24} value={size} onChange={(e) => setSize(Number(e.target.value))} />
-            <button onClick={() => setDarkMode((s) => !s)} className="rounded bg-slate-700 px-3 py-1">Dark-Mode</button>
+            <button onClick={() => setDarkMode((s) => !s)} className="rounded bg-slate-700 px-3 py-1">{t('tools.darkMode')}</button>
+            {room.phase === 'drawing' && isMyTurn && (
+              <button onClick={() => socket.emit('turn:end')} className="ml-auto rounded bg-emerald-500 px-3 py-1 font-semibold text-slate-950">{t('room.endTurn')}</button>
+            )}
           </div>
 
           <DrawingCanvas
@@ -154,82 +351,263 @@ export function App() {
             size={size}
             tool={tool}
             strokes={room.drawing}
-            onStroke={(stroke) => {
-              setRoom((prev) => (prev ? { ...prev, drawing: [...prev.drawing, stroke] } : prev))
-              socket.emit('draw:stroke', stroke)
+            onBatch={(batch, strokes) => {
+              setRoom((prev) => (prev ? { ...prev, drawing: [...prev.drawing, ...strokes] } : prev))
+              socket.emit('draw:points', batch)
             }}
+            onUndo={undo}
+            onRedo={redo}
+            onClear={() => socket.emit('draw:clear')}
           />
 
           <div className="rounded bg-slate-800 p-2 text-sm">
-            Phase: <strong>{room.phase}</strong> · Aktueller Zeichner: <strong>{currentDrawer?.name ?? '---'}</strong>
+            {t('room.phase')} <strong>{t(`phase.${room.phase}`)}</strong> · {t('room.currentDrawer')} <strong>{currentDrawer?.name ?? '---'}</strong>
           </div>
 
+          {room.phase === 'discussion' && (
+            <div className="rounded-lg border border-sky-500 bg-sky-500/10 p-3">
+              <h3 className="mb-1 font-bold">{t('discussion.title')}</h3>
+              <p className="text-sm text-slate-300">{t('discussion.hint')}</p>
+            </div>
+          )}
+
+          {(room.phase === 'discussion' || room.phase === 'voting' || room.phase === 'results') && room.gallery.length > 0 && (
+            <div className="rounded-lg border border-slate-700 p-3">
+              <h3 className="mb-2 font-bold">{t('gallery.title')}</h3>
+              <Gallery round={room.round} entries={room.gallery} />
+            </div>
+          )}
+
           {room.phase === 'voting' && (
             <div className="rounded-lg border border-amber-500 bg-amber-500/10 p-3">
-              <h3 className="mb-2 font-bold">Voting: Wer ist der Imposter?</h3>
-              <div className="flex flex-wrap gap-2">
-                {room.players.map((p) => (
-                  <button key={p.id} onClick={() => socket.emit('vote:submit', { targetId: p.id })} className="rounded bg-amber-400 px-3 py-2 text-slate-900">{p.name}</button>
-                ))}
-              </div>
+              <h3 className="mb-2 font-bold">{t('voting.title')}</h3>
+              {room.eliminated.length > 0 && (
+                <p className="mb-2 text-sm">
+                  {t('voting.eliminated', { list: room.eliminated.map((e) => `${nameOf(e.id)} (${t(e.wasImposter ? 'voting.wasImposter' : 'voting.innocent')})`).join(', ') })}
+                </p>
+              )}
+              {room.voteCandidates && <p className="mb-2 text-sm">{t('voting.runoff', { names: room.voteCandidates.map(nameOf).join(', ') })}</p>}
+              {isSpectator ? (
+                <p className="text-sm text-slate-300">{t('voting.spectatorsDontVote')}</p>
+              ) : isEliminated(playerId) ? (
+                <p className="text-sm text-slate-300">{t('voting.youAreOut')}</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {room.players
+                    .filter((p) => p.id !== playerId && !isEliminated(p.id) && (!room.voteCandidates || room.voteCandidates.includes(p.id)))
+                    .map((p) => (
+                      <button key={p.id} onClick={() => vote(p.id)} className={`rounded px-3 py-2 text-slate-900 ${myVote === p.id ? 'bg-amber-200 ring-2 ring-amber-50' : 'bg-amber-400'}`}>{p.name}</button>
+                    ))}
+                  <button onClick={() => vote('skip')} className={`rounded px-3 py-2 ${myVote === 'skip' ? 'bg-slate-400 text-slate-900 ring-2 ring-slate-50' : 'bg-slate-600'}`}>{t('voting.skip')}</button>
+                </div>
+              )}
+              <p className="mt-2 text-xs text-slate-300">
+                {t('voting.progress', { voted: room.votedIds.length, total: room.players.filter((p) => !isEliminated(p.id)).length })}
+              </p>
+            </div>
+          )}
+
+          {room.phase === 'lastChance' && (
+            <div className="rounded-lg border border-rose-500 bg-rose-500/10 p-3">
+              {t('lastChance.banner', { name: nameOf(room.lastChanceId ?? '') })}
             </div>
           )}
 
-          {isImposter && room.phase !== 'lobby' && (
+          {guessLog.length > 0 && (
+            <ul className="space-y-1 rounded bg-slate-800 p-2 text-sm">
+              {guessLog.map((g, i) => (
+                <li key={i}>
+                  {t('guess.entry', { name: nameOf(g.playerId), guess: g.guess })}{g.lastChance ? t('guess.lastChanceTag') : ''}: {t(g.correct ? 'guess.correct' : 'guess.wrong')}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {(room.phase === 'lastChance'
+            ? room.lastChanceId === playerId
+            : isImposter && !isEliminated(playerId) && room.phase !== 'lobby' && room.phase !== 'results' && guessesLeft > 0) && (
             <div className="rounded border border-fuchsia-500 bg-fuchsia-500/10 p-3">
-              <h3 className="font-semibold">Imposter Guess</h3>
+              <h3 className="font-semibold">
+                {t('guess.title')} {room.phase === 'lastChance' ? t('guess.lastChance') : t('guess.attemptsLeft', { count: guessesLeft })}
+              </h3>
               <div className="mt-2 flex gap-2">
-                <input className="flex-1 rounded bg-slate-800 p-2" value={guess} onChange={(e) => setGuess(e.target.value)} placeholder="Echtes Wort eingeben" />
-                <button className="rounded bg-fuchsia-500 px-3 py-2 font-semibold text-slate-950" onClick={submitGuess}>Einreichen</button>
+                <input className="flex-1 rounded bg-slate-800 p-2" maxLength={40} value={guess} onChange={(e) => setGuess(e.target.value)} placeholder={t('guess.placeholder')} />
+                <button className="rounded bg-fuchsia-500 px-3 py-2 font-semibold text-slate-950" onClick={submitGuess}>{t('guess.submit')}</button>
               </div>
             </div>
           )}
 
           {room.phase === 'results' && (
             <div className="rounded border border-emerald-500 bg-emerald-500/10 p-3">
-              <p>Runde beendet. Der Imposter war: <strong>{room.players.find((p) => p.id === room.imposterId)?.name ?? '?'}</strong></p>
-              {isHost && <button onClick={() => socket.emit('round:next')} className="mt-2 rounded bg-emerald-500 px-3 py-2 font-semibold text-slate-950">Nächste Runde</button>}
+              <p>
+                {t(room.imposterIds.length > 1 ? 'results.impostersWere' : 'results.imposterWas')}{' '}
+                <strong>{room.imposterIds.map(nameOf).join(', ')}</strong>
+              </p>
+              {results && (
+                <p className="mt-1 text-sm text-slate-300">
+                  {t(`results.mode.${results.mode}`, { word: results.realWord ?? '', fake: results.fakeWord ?? '', category: results.category ?? '' })}
+                </p>
+              )}
+              {results?.voteHistory.map((record, i) => (
+                <div key={i} className="mt-2 text-sm">
+                  <p className="font-semibold">
+                    {t('results.voteRound', { n: i + 1 })} {record.tie ? t('results.tie') : record.eliminated ? t('results.eliminated', { name: nameOf(record.eliminated) }) : t('results.nobody')}
+                  </p>
+                  <ul className="text-slate-300">
+                    {Object.entries(record.votes).map(([voterId, targetId]) => (
+                      <li key={voterId}>{nameOf(voterId)} → {targetId === 'skip' ? t('results.skipped') : nameOf(targetId)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {results && (
+                <div className="mt-2 text-sm">
+                  <p className="font-semibold">{t('results.points')}</p>
+                  <ul className="text-slate-300">
+                    {Object.entries(results.points)
+                      .sort(([, a], [, b]) => b.total - a.total)
+                      .map(([id, score]) => (
+                        <li key={id}>
+                          <span className="font-semibold text-slate-100">{nameOf(id)} +{score.total}</span>
+                          {SCORE_PARTS.filter((part) => score[part] > 0).map((part) => (
+                            <span key={part}> · {t(`results.score.${part}`, { n: score[part] })}</span>
+                          ))}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+              {results?.matchOver && results.podium && <Podium entries={results.podium} />}
+              <div className="mt-2 flex gap-2">
+                {isHost && (
+                  <button onClick={() => socket.emit('round:next')} className="rounded bg-emerald-500 px-3 py-2 font-semibold text-slate-950">
+                    {t(results?.matchOver ? 'results.newMatch' : 'results.nextRound')}
+                  </button>
+                )}
+                <button onClick={() => setReplayRound(room.round)} className="rounded bg-slate-700 px-3 py-2">{t('results.watchReplay')}</button>
+              </div>
             </div>
           )}
+
+          {room.phase === 'results' && replayRound !== null && (
+            <ReplayPlayer code={room.code} round={replayRound} onClose={() => setReplayRound(null)} />
+          )}
         </section>
 
         <aside className="space-y-3">
           <section className="rounded-xl border border-slate-800 bg-slate-900/50 p-3">
-            <h3 className="mb-2 font-bold">Spieler</h3>
+            <h3 className="mb-2 font-bold">{t('players.title', { count: room.players.length, max: room.settings.maxPlayers })}</h3>
             <ul className="space-y-1 text-sm">
               {room.players.map((p) => (
-                <li key={p.id} className="flex justify-between rounded bg-slate-800 px-2 py-1">
-                  <span>{p.name} {p.isHost ? '👑' : ''}</span>
-                  <span>{p.wins}W/{p.losses}L</span>
+                <li key={p.id} className="flex items-center justify-between gap-2 rounded bg-slate-800 px-2 py-1">
+                  <span className={p.connected ? '' : 'text-slate-500'}>{p.bot ? '🤖 ' : ''}{p.name} {p.isHost ? '👑' : ''} {p.connected ? '' : t('players.disconnected')}</span>
+                  <span className="flex items-center gap-1">
+                    {isHost && p.id !== playerId && (
+                      <>
+                        {!p.bot && <button onClick={() => moderate('host:transfer', { playerId: p.id })} title={t('players.transferHost')} className="rounded bg-slate-700 px-1 text-xs">👑</button>}
+                        <button onClick={() => moderate('host:kick', { playerId: p.id })} className="rounded bg-slate-700 px-1 text-xs">{t('players.kick')}</button>
+                        {!p.bot && <button onClick={() => moderate('host:kick', { playerId: p.id, ban: true })} className="rounded bg-rose-700 px-1 text-xs">{t('players.ban')}</button>}
+                      </>
+                    )}
+                    {t('leaderboard.points', { points: pointsOf(p.id) })}
+                  </span>
                 </li>
               ))}
             </ul>
+            {room.spectators.length > 0 && (
+              <div className="mt-2 text-xs text-slate-400">
+                {t('players.spectators')}{' '}
+                {room.spectators.map((p) => (
+                  <span key={p.id} className="mr-2 inline-flex items-center gap-1">
+                    {p.name}
+                    {isHost && (
+                      <>
+                        <button onClick={() => moderate('host:kick', { playerId: p.id })} className="rounded bg-slate-700 px-1">{t('players.kick')}</button>
+                        <button onClick={() => moderate('host:kick', { playerId: p.id, ban: true })} className="rounded bg-rose-700 px-1">{t('players.ban')}</button>
+                      </>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+            {isHost && (room.phase === 'lobby' || room.phase === 'results') && room.players.length < room.settings.maxPlayers && (
+              <button onClick={addBot} className="mt-2 w-full rounded bg-slate-700 py-1 text-sm">{t('players.addBot')}</button>
+            )}
+            {isHost && <RoomAccessPanel locked={room.locked} hasPassword={room.hasPassword} isPublic={room.isPublic} name={room.name} />}
+            {isHost && <WebhookPanel />}
             {isHost && room.phase === 'lobby' && (
-              <button onClick={() => socket.emit('game:start')} className="mt-3 w-full rounded bg-cyan-500 py-2 font-semibold text-slate-950">Spiel starten</button>
+              <button
+                onClick={() => socket.emit('game:start')}
+                disabled={room.players.length < room.settings.minPlayers}
+                className="mt-3 w-full rounded bg-cyan-500 py-2 font-semibold text-slate-950 disabled:opacity-50"
+              >
+                {t('players.start', { min: room.settings.minPlayers })}
+              </button>
             )}
           </section>
 
+          {(room.phase === 'lobby' || room.phase === 'results') && (
+            <section className="rounded-xl border border-slate-800 bg-slate-900/50 p-3">
+              <h3 className="mb-2 font-bold">{t('settings.title')}</h3>
+              <RoomSettingsPanel settings={room.settings} editable={!!isHost} />
+            </section>
+          )}
+
+          {(room.phase === 'lobby' || room.phase === 'results') && (
+            <section className="rounded-xl border border-slate-800 bg-slate-900/50 p-3">
+              <h3 className="mb-2 font-bold">{t('packs.title')}</h3>
+              <PackPicker selected={room.packIds} editable={!!isHost} language={room.language} />
+            </section>
+          )}
+
           <section className="rounded-xl border border-slate-800 bg-slate-900/50 p-3">
-            <h3 className="mb-2 font-bold">Chat</h3>
+            <h3 className="mb-2 font-bold">{t('chat.title')}</h3>
             <div className="mb-2 h-44 space-y-1 overflow-y-auto rounded bg-slate-800 p-2 text-sm">
-              {room.chat.map((m, i) => <p key={i}><strong>{m.name}:</strong> {m.message}</p>)}
+              {room.chat.map((m, i) =>
+                m.system ? <p key={i} className="text-xs italic text-cyan-300">— {systemText(m.system)}</p> : <p key={i}><strong>{m.name}:</strong> {m.message}</p>
+              )}
             </div>
             <form onSubmit={sendMessage} className="flex gap-2">
-              <input className="flex-1 rounded bg-slate-800 p-2 text-sm" value={message} onChange={(e) => setMessage(e.target.value)} />
-              <button className="rounded bg-slate-700 px-3">Senden</button>
+              <input
+                className="flex-1 rounded bg-slate-800 p-2 text-sm disabled:opacity-50"
+                maxLength={200}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                disabled={chatMuted}
+                placeholder={chatMuted ? t('chat.muted') : ''}
+              />
+              <button disabled={chatMuted} className="rounded bg-slate-700 px-3 disabled:opacity-50">{t('chat.send')}</button>
             </form>
           </section>
 
           <section className="rounded-xl border border-slate-800 bg-slate-900/50 p-3">
-            <h3 className="mb-2 font-bold">Leaderboard</h3>
-            <ul className="space-y-1 text-sm">
-              {[...room.leaderboard].sort((a, b) => b.wins - a.wins).map((entry) => (
-                <li key={entry.id} className="flex justify-between rounded bg-slate-800 px-2 py-1">
-                  <span>{entry.name}</span>
-                  <span>{entry.wins}W/{entry.losses}L</span>
-                </li>
-              ))}
-            </ul>
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="font-bold">{t('leaderboard.title')}</h3>
+              <div className="flex gap-1 text-xs">
+                <button onClick={() => setLeaderboardTab('room')} className={`rounded px-2 py-1 ${leaderboardTab === 'room' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>{t('leaderboard.room')}</button>
+                <button onClick={() => setLeaderboardTab('global')} className={`rounded px-2 py-1 ${leaderboardTab === 'global' ? 'bg-cyan-500 text-slate-950' : 'bg-slate-700'}`}>{t('leaderboard.global')}</button>
+              </div>
+            </div>
+            {leaderboardTab === 'room' ? (
+              <>
+                {room.settings.matchRounds > 0 && (
+                  <p className="mb-1 text-xs text-slate-400">{t('leaderboard.match', { round: room.matchRound, total: room.settings.matchRounds })}</p>
+                )}
+                <ul className="space-y-1 text-sm">
+                  {room.leaderboard.map((entry) => (
+                    <li key={entry.id} className="flex justify-between gap-2 rounded bg-slate-800 px-2 py-1">
+                      <span>{entry.name}</span>
+                      <span className="flex items-center gap-2">
+                        <span className="text-xs text-slate-400">{entry.rounds.map((points) => points ?? '–').join(' · ')}</span>
+                        <span className="font-semibold">{t('leaderboard.points', { points: entry.points })}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <GlobalLeaderboard highlightId={room.players.find((p) => p.id === playerId)?.profileId} refreshKey={`${room.round}-${room.phase}`} />
+            )}
           </section>
         </aside>
       </div>
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+import { serverNow } from '../lib/clock'
+
+const TICK_MS = 250
+
+// Seconds left in the current phase, counted against the server's clock.
+export function Countdown({ endsAt, pausedLeft }: { endsAt: number | null; pausedLeft: number | null }) {
+  const { t } = useI18n()
+  const [now, setNow] = useState(serverNow)
+
+  useEffect(() => {
+    if (endsAt === null) return
+    setNow(serverNow())
+    const timer = setInterval(() => setNow(serverNow()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [endsAt])
+
+  if (pausedLeft !== null) {
+    return <span className="font-bold text-amber-300">{Math.ceil(pausedLeft / 1000)}s ({t('room.timerPaused')})</span>
+  }
+  const left = endsAt === null ? null : Math.max(0, Math.ceil((endsAt - now) / 1000))
+  return <span className={`font-bold ${left !== null && left <= 5 ? 'text-rose-400' : ''}`}>{left ?? '-'}s</span>
+}
@@ -1,14 +1,6 @@
 import { useEffect, useRef, useState } from 'react'
-
-type Stroke = {
-  x0: number
-  y0: number
-  x1: number
-  y1: number
-  color: string
-  size: number
-  tool: 'brush' | 'eraser'
-}
+import { useI18n } from '../lib/i18n'
+import { BASE_WIDTH, CANVAS_ASPECT, COORD_SCALE, batchToStrokes, drawStroke, paintStrokes, type Stroke, type StrokeBatch } from '../lib/strokes'
 
 type Props = {
   enabled: boolean
@@ -16,84 +8,152 @@ type Props = {
   size: number
   tool: 'brush' | 'eraser'
   strokes: Stroke[]
-  onStroke: (stroke: Stroke) => void
+  onBatch: (batch: StrokeBatch, strokes: Stroke[]) => void
+  onUndo: () => void
+  onRedo: () => void
+  onClear: () => void
 }
 
-export function DrawingCanvas({ enabled, color, size, tool, strokes, onStroke }: Props) {
+// pointer positions are sampled at most this often and sent in batches
+const SAMPLE_MS = 16
+const BATCH_MS = 50
+
+const quantize = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * COORD_SCALE)
+const makeStrokeId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+
+export function DrawingCanvas({ enabled, color, size, tool, strokes, onBatch, onUndo, onRedo, onClear }: Props) {
   const ref = useRef<HTMLCanvasElement | null>(null)
+  const { t } = useI18n()
   const [isDrawing, setIsDrawing] = useState(false)
-  const lastPoint = useRef<{ x: number; y: number } | null>(null)
-
-  const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
-    ctx.save()
-    ctx.beginPath()
-    ctx.moveTo(stroke.x0, stroke.y0)
-    ctx.lineTo(stroke.x1, stroke.y1)
-    ctx.lineCap = 'round'
-    ctx.lineJoin = 'round'
-    ctx.lineWidth = stroke.size
-    ctx.strokeStyle = stroke.tool === 'eraser' ? '#0f172a' : stroke.color
-    ctx.stroke()
-    ctx.restore()
-  }
+  const [cssWidth, setCssWidth] = useState(0)
+  const pending = useRef<StrokeBatch | null>(null)
+  const lastSampleAt = useRef(0)
+  // what is on the canvas right now, so appended strokes can be drawn on top
+  const painted = useRef<{ strokes: Stroke[]; width: number }>({ strokes: [], width: 0 })
+  const ownStrokes = useRef(new WeakSet<Stroke>())
+  const onBatchRef = useRef(onBatch)
+  onBatchRef.current = onBatch
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) onUndo()
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) onRedo()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [enabled, onUndo, onRedo])
 
   useEffect(() => {
     const canvas = ref.current
     if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => setCssWidth(entry.contentRect.width))
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
 
-    canvas.width = canvas.clientWidth
-    canvas.height = canvas.clientHeight
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-    ctx.fillStyle = '#0f172a'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-    strokes.forEach((stroke) => drawStroke(ctx, stroke))
-  }, [strokes])
+  useEffect(() => {
+    const canvas = ref.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || cssWidth === 0) return
+
+    const prev = painted.current
+    const last = prev.strokes[prev.strokes.length - 1]
+    const appended = prev.width === cssWidth && strokes.length >= prev.strokes.length && (!last || strokes[prev.strokes.length - 1] === last)
+    if (appended) {
+      for (let i = prev.strokes.length; i < strokes.length; i++) {
+        if (!ownStrokes.current.has(strokes[i])) drawStroke(ctx, strokes[i])
+      }
+    } else {
+      // undo, sync or resize: start over
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = Math.round(cssWidth * dpr)
+      canvas.height = Math.round((cssWidth / CANVAS_ASPECT) * dpr)
+      paintStrokes(ctx, strokes)
+    }
+    painted.current = { strokes, width: cssWidth }
+  }, [strokes, cssWidth])
+
+  const flush = () => {
+    const batch = pending.current
+    if (!batch || batch.points.length < 4) return
+    const sent = { ...batch, points: [...batch.points] }
+    const segments = batchToStrokes(sent)
+    segments.forEach((s) => ownStrokes.current.add(s))
+    batch.points = batch.points.slice(-2)
+    onBatchRef.current(sent, segments)
+  }
+
+  useEffect(() => {
+    if (!isDrawing) return
+    const timer = setInterval(flush, BATCH_MS)
+    return () => clearInterval(timer)
+  }, [isDrawing])
 
   const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    const rect = ref.current!.getBoundingClientRect()
-    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    const canvas = ref.current!
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: quantize((e.clientX - rect.left - canvas.clientLeft) / canvas.clientWidth),
+      y: quantize((e.clientY - rect.top - canvas.clientTop) / canvas.clientHeight)
+    }
+  }
+
+  // adds a point to the open batch and draws the new segment right away
+  const addPoint = (point: { x: number; y: number }) => {
+    const batch = pending.current
+    if (!batch) return
+    const [px, py] = batch.points.slice(-2)
+    if (px === point.x && py === point.y) return
+    batch.points.push(point.x, point.y)
+    lastSampleAt.current = performance.now()
+
+    const ctx = ref.current?.getContext('2d')
+    if (ctx) drawStroke(ctx, batchToStrokes({ ...batch, points: [px, py, point.x, point.y] })[0])
   }
 
   const pointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!enabled) return
     setIsDrawing(true)
-    lastPoint.current = getPoint(e)
+    const { x, y } = getPoint(e)
+    pending.current = { id: makeStrokeId(), color, size: size / BASE_WIDTH, tool, points: [x, y] }
+    lastSampleAt.current = performance.now()
   }
 
   const pointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!enabled || !isDrawing || !lastPoint.current) return
-    const current = getPoint(e)
-    const stroke: Stroke = {
-      x0: lastPoint.current.x,
-      y0: lastPoint.current.y,
-      x1: current.x,
-      y1: current.y,
-      color,
-      size,
-      tool
-    }
-
-    const ctx = ref.current?.getContext('2d')
-    if (ctx) drawStroke(ctx, stroke)
-
-    onStroke(stroke)
-    lastPoint.current = current
+    if (!enabled || !isDrawing || performance.now() - lastSampleAt.current < SAMPLE_MS) return
+    addPoint(getPoint(e))
   }
 
-  const pointerUp = () => {
+  const pointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pending.current) return
+    addPoint(getPoint(e))
+    flush()
+    pending.current = null
     setIsDrawing(false)
-    lastPoint.current = null
   }
 
   return (
-    <canvas
-      ref={ref}
-      className="h-[52vh] w-full touch-none rounded-xl border border-slate-700 bg-slate-900"
-      onPointerDown={pointerDown}
-      onPointerMove={pointerMove}
-      onPointerUp={pointerUp}
-      onPointerLeave={pointerUp}
-    />
+    <div className="space-y-2">
+      <canvas
+        ref={ref}
+        className="aspect-[4/3] w-full touch-none rounded-xl border border-slate-700 bg-slate-900"
+        onPointerDown={pointerDown}
+        onPointerMove={pointerMove}
+        onPointerUp={pointerUp}
+        onPointerLeave={pointerUp}
+      />
+      {enabled && (
+        <div className="flex gap-2 text-sm">
+          <button onClick={onUndo} className="rounded bg-slate-700 px-3 py-1" title={t('canvas.undoShortcut')}>{t('canvas.undo')}</button>
+          <button onClick={onRedo} className="rounded bg-slate-700 px-3 py-1" title={t('canvas.redoShortcut')}>{t('canvas.redo')}</button>
+          <button onClick={onClear} className="rounded bg-rose-600 px-3 py-1">{t('canvas.clear')}</button>
+        </div>
+      )}
+    </div>
   )
 }
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react'
+import { useI18n } from '../lib/i18n'
+import { CANVAS_ASPECT, downloadBlob, paintStrokes, strokesToPng, strokesToSvg, type Stroke } from '../lib/strokes'
+
+export type GalleryEntry = { drawerId: string; name: string; strokes: Stroke[] }
+
+const THUMB_WIDTH = 320
+
+function Thumbnail({ strokes }: { strokes: Stroke[] }) {
+  const ref = useRef<HTMLCanvasElement | null>(null)
+
+  useEffect(() => {
+    const canvas = ref.current
+    if (!canvas) return
+    canvas.width = THUMB_WIDTH
+    canvas.height = Math.round(THUMB_WIDTH / CANVAS_ASPECT)
+    const ctx = canvas.getContext('2d')
+    if (ctx) paintStrokes(ctx, strokes)
+  }, [strokes])
+
+  return <canvas ref={ref} className="aspect-[4/3] w-full rounded border border-slate-700" />
+}
+
+export function Gallery({ round, entries }: { round: number; entries: GalleryEntry[] }) {
+  const { t } = useI18n()
+  const fileName = (entry: GalleryEntry) => t('gallery.fileName', { round, name: entry.name })
+
+  const exportPng = async (entry: GalleryEntry) => {
+    const blob = await strokesToPng(entry.strokes)
+    if (blob) downloadBlob(blob, `${fileName(entry)}.png`)
+  }
+
+  const exportSvg = (entry: GalleryEntry) => {
+    const blob = new Blob([strokesToSvg(entry.strokes)], { type: 'image/svg+xml' })
+    downloadBlob(blob, `${fileName(entry)}.svg`)
+  }
+
+  if (entries.length === 0) return null
+
+  return (
+    <div className="grid grid-cols-2 gap-2 md:grid-cols-3">
+      {entries.map((entry) => (
+        <figure key={entry.drawerId} className="space-y-1 rounded bg-slate-800 p-2 text-sm">
+          <Thumbnail strokes={entry.strokes} />
+          <figcaption className="flex items-center justify-between gap-1">
+            <span className="truncate font-semibold">{entry.name}</span>
+            <span className="flex gap-1">
+              <button onClick={() => exportPng(entry)} className="rounded bg-slate-700 px-2 text-xs">PNG</button>
+              <button onClick={() => exportSvg(entry)} className="rounded bg-slate-700 px-2 text-xs">SVG</button>
+            </span>
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+import { SERVER_URL } from '../lib/socket'
+
+type ProfileEntry = {
+  id: string
+  name: string
+  games: number
+  imposterWins: number
+  crewWins: number
+  guessAccuracy: number | null
+  rating: number
+}
+
+export function GlobalLeaderboard({ highlightId, refreshKey }: { highlightId?: string | null; refreshKey: string }) {
+  const [entries, setEntries] = useState<ProfileEntry[]>([])
+  const { t } = useI18n()
+
+  useEffect(() => {
+    fetch(`${SERVER_URL}/leaderboard?limit=20`)
+      .then((res) => res.json())
+      .then(setEntries)
+      .catch(() => setEntries([]))
+  }, [refreshKey])
+
+  if (entries.length === 0) return <p className="text-sm text-slate-400">{t('leaderboard.empty')}</p>
+
+  return (
+    <ol className="space-y-1 text-sm">
+      {entries.map((entry, i) => (
+        <li
+          key={entry.id}
+          className={`flex justify-between gap-2 rounded px-2 py-1 ${entry.id === highlightId ? 'bg-cyan-900' : 'bg-slate-800'}`}
+          title={
+            t('leaderboard.details', { games: entry.games, imposterWins: entry.imposterWins, crewWins: entry.crewWins }) +
+            (entry.guessAccuracy !== null ? t('leaderboard.accuracy', { percent: Math.round(entry.guessAccuracy * 100) }) : '')
+          }
+        >
+          <span className="truncate">{i + 1}. {entry.name}</span>
+          <span className="font-semibold">{entry.rating}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
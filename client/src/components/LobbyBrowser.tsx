@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+import { socket } from '../lib/socket'
+
+type PublicRoom = {
+  code: string
+  name: string
+  players: number
+  maxPlayers: number
+  spectators: number
+  phase: string
+  inProgress: boolean
+  round: number
+  language: string
+  packs: string[]
+  hasPassword: boolean
+}
+
+// Live list of public rooms; the server pushes updates while this is mounted.
+export function LobbyBrowser({ onJoin }: { onJoin: (code: string, spectate: boolean) => void }) {
+  const [rooms, setRooms] = useState<PublicRoom[]>([])
+  const [query, setQuery] = useState('')
+  const [language, setLanguage] = useState('')
+  const [openOnly, setOpenOnly] = useState(false)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    const subscribe = () => socket.emit('lobbies:subscribe', {})
+    socket.on('lobbies:list', setRooms)
+    socket.on('connect', subscribe)
+    if (socket.connected) subscribe()
+    return () => {
+      socket.off('lobbies:list', setRooms)
+      socket.off('connect', subscribe)
+      socket.emit('lobbies:unsubscribe', {})
+    }
+  }, [])
+
+  const languages = useMemo(() => [...new Set(rooms.map((r) => r.language))].sort(), [rooms])
+  const visible = rooms.filter(
+    (r) =>
+      (!query || r.name.toLowerCase().includes(query.toLowerCase())) &&
+      (!language || r.language === language) &&
+      (!openOnly || (!r.inProgress && r.players < r.maxPlayers))
+  )
+
+  return (
+    <section className="space-y-2 rounded-xl border border-slate-800 bg-slate-900/50 p-3">
+      <h2 className="font-bold">{t('lobbies.title')}</h2>
+      <div className="flex flex-wrap gap-2 text-sm">
+        <input className="min-w-0 flex-1 rounded bg-slate-800 p-2" placeholder={t('lobbies.search')} value={query} onChange={(e) => setQuery(e.target.value)} />
+        <select className="rounded bg-slate-800 p-2" value={language} onChange={(e) => setLanguage(e.target.value)}>
+          <option value="">{t('lobbies.allLanguages')}</option>
+          {languages.map((l) => <option key={l} value={l}>{l.toUpperCase()}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={openOnly} onChange={(e) => setOpenOnly(e.target.checked)} />
+          {t('lobbies.openOnly')}
+        </label>
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('lobbies.empty')}</p>
+      ) : (
+        <ul className="max-h-72 space-y-1 overflow-y-auto text-sm">
+          {visible.map((r) => {
+            const full = r.players >= r.maxPlayers
+            return (
+              <li key={r.code} className="flex items-center justify-between gap-2 rounded bg-slate-800 px-2 py-1">
+                <div className="min-w-0">
+                  <p className="truncate font-semibold">{r.hasPassword ? '🔑 ' : ''}{r.name}</p>
+                  <p className="truncate text-xs text-slate-400">
+                    {t('lobbies.players', { players: r.players, max: r.maxPlayers })} · {r.inProgress ? t('lobbies.running', { round: r.round }) : t('lobbies.waiting')} · {r.language.toUpperCase()} · {r.packs.join(', ')}
+                  </p>
+                </div>
+                {r.inProgress || full ? (
+                  <button onClick={() => onJoin(r.code, true)} className="shrink-0 rounded bg-slate-700 px-2 py-1">{t('lobbies.watch')}</button>
+                ) : (
+                  <button onClick={() => onJoin(r.code, false)} className="shrink-0 rounded bg-emerald-500 px-2 py-1 font-semibold text-slate-950">{t('lobbies.join')}</button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { useI18n, type ServerError } from '../lib/i18n'
+import { SERVER_URL, socket } from '../lib/socket'
+
+type PackSummary = { id: string; name: string; language: string; categories: { name: string; pairs: number }[] }
+
+// Packs of the room's word language; switching the language swaps in that language's standard pack.
+export function PackPicker({ selected, editable, language }: { selected: string[]; editable: boolean; language: string }) {
+  const [packs, setPacks] = useState<PackSummary[]>([])
+  const { t, errorText } = useI18n()
+
+  useEffect(() => {
+    fetch(`${SERVER_URL}/packs`)
+      .then((res) => res.json())
+      .then(setPacks)
+      .catch(() => setPacks([]))
+  }, [])
+
+  const report = (res: Partial<ServerError>) => {
+    if (res.error) alert(errorText(res))
+  }
+
+  const toggle = (id: string) => {
+    const next = selected.includes(id) ? selected.filter((p) => p !== id) : [...selected, id]
+    if (next.length > 0) socket.emit('room:packs', { packIds: next }, report)
+  }
+
+  const languages = [...new Set(packs.map((pack) => pack.language))].sort()
+
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="flex items-center justify-between gap-2">
+        <span className="text-slate-300">{t('packs.language')}</span>
+        <select disabled={!editable} value={language} onChange={(e) => socket.emit('room:language', { language: e.target.value }, report)} className="rounded bg-slate-800 p-1">
+          {languages.map((l) => <option key={l} value={l}>{l.toUpperCase()}</option>)}
+        </select>
+      </label>
+      <ul className="space-y-1">
+        {packs.filter((pack) => pack.language === language).map((pack) => {
+          const pairs = pack.categories.reduce((sum, c) => sum + c.pairs, 0)
+          return (
+            <li key={pack.id} className="flex items-center gap-2 rounded bg-slate-800 px-2 py-1">
+              <input type="checkbox" checked={selected.includes(pack.id)} disabled={!editable} onChange={() => toggle(pack.id)} />
+              <span className="flex-1">{pack.name}</span>
+              <span className="text-xs text-slate-400">{t('packs.summary', { categories: pack.categories.length, pairs })}</span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
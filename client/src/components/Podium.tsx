@@ -0,0 +1,32 @@
+import { useI18n } from '../lib/i18n'
+
+export type PodiumEntry = { id: string; name: string; points: number }
+
+const PLACES = [
+  { medal: '🥇', height: 'h-24', color: 'bg-amber-400/80' },
+  { medal: '🥈', height: 'h-16', color: 'bg-slate-300/80' },
+  { medal: '🥉', height: 'h-12', color: 'bg-orange-400/80' }
+]
+
+// second place left, winner in the middle, third right
+const ORDER = [1, 0, 2]
+
+export function Podium({ entries }: { entries: PodiumEntry[] }) {
+  const { t } = useI18n()
+
+  return (
+    <div className="mt-3">
+      <h4 className="mb-2 font-bold">{t('results.podium')}</h4>
+      <div className="flex items-end justify-center gap-2">
+        {ORDER.filter((place) => entries[place]).map((place) => (
+          <div key={entries[place].id} className="flex w-24 flex-col items-center gap-1 text-center text-sm">
+            <span className="text-2xl">{PLACES[place].medal}</span>
+            <span className="w-full truncate font-semibold">{entries[place].name}</span>
+            <span className="text-slate-300">{t('leaderboard.points', { points: entries[place].points })}</span>
+            <div className={`w-full rounded-t ${PLACES[place].height} ${PLACES[place].color}`} />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
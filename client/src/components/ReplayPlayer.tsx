@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { DrawingCanvas } from './DrawingCanvas'
+import { isMessageKey, useI18n, type MessageKey } from '../lib/i18n'
+import { loadSession, SERVER_URL } from '../lib/socket'
+import { createReplay, timelineDuration, type RoundTimeline, type TimelineEvent } from '../lib/replay'
+
+const SPEEDS = [0.5, 1, 2, 4]
+const noop = () => {}
+
+export function ReplayPlayer({ code, round, onClose }: { code: string; round: number; onClose: () => void }) {
+  const [timeline, setTimeline] = useState<RoundTimeline | null>(null)
+  const [error, setError] = useState<MessageKey | null>(null)
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const lastFrame = useRef<number | null>(null)
+  const { t } = useI18n()
+
+  useEffect(() => {
+    // rooms behind a password or lock only show their timelines to members
+    fetch(`${SERVER_URL}/rooms/${code}/rounds/${round}/timeline`, { headers: { 'X-Room-Token': loadSession()?.token ?? '' } })
+      .then(async (res) => {
+        if (!res.ok) {
+          const key = `error.${(await res.json()).error}`
+          throw new Error(isMessageKey(key) ? key : 'error.UNKNOWN')
+        }
+        return res.json()
+      })
+      .then((data: RoundTimeline) => {
+        setTimeline(data)
+        setPosition(0)
+        setPlaying(true)
+      })
+      .catch((err: Error) => setError(isMessageKey(err.message) ? err.message : 'error.UNKNOWN'))
+  }, [code, round])
+
+  const duration = timeline ? timelineDuration(timeline.events) : 0
+
+  useEffect(() => {
+    if (!playing) return
+    let frame = 0
+    const tick = (now: number) => {
+      const dt = lastFrame.current === null ? 0 : now - lastFrame.current
+      lastFrame.current = now
+      setPosition((p) => Math.min(duration, p + dt * speed))
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => {
+      cancelAnimationFrame(frame)
+      lastFrame.current = null
+    }
+  }, [playing, speed, duration])
+
+  useEffect(() => {
+    if (playing && position >= duration) setPlaying(false)
+  }, [playing, position, duration])
+
+  const replay = useMemo(() => (timeline ? createReplay(timeline.events) : null), [timeline])
+  const state = useMemo(() => replay?.(position) ?? null, [replay, position])
+  const phaseKey = `phase.${state?.phase}`
+  const nameOf = (id: string | null) => timeline?.players.find((p) => p.id === id)?.name ?? '?'
+
+  const describe = (event: TimelineEvent) => {
+    switch (event.type) {
+      case 'chat':
+        return `💬 ${event.name}: ${event.message}`
+      case 'vote':
+        return `🗳️ ${nameOf(event.voterId)} → ${event.targetId === 'skip' ? t('results.skipped') : nameOf(event.targetId)}`
+      case 'guess':
+        return t('replay.guess', { name: nameOf(event.playerId), guess: event.guess, result: event.correct ? '✅' : '❌' })
+      case 'eliminated':
+        return event.playerId ? t('replay.eliminated', { name: nameOf(event.playerId) }) : t('replay.nobodyEliminated')
+      default:
+        return ''
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-700 bg-slate-900 p-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold">{t('replay.title', { round })}</h3>
+        <button onClick={onClose} className="rounded bg-slate-700 px-2 py-1 text-sm">{t('replay.close')}</button>
+      </div>
+      {error && <p className="text-sm text-rose-400">{t(error)}</p>}
+      {timeline && state && (
+        <>
+          <p className="text-sm text-slate-300">
+            {t('room.phase')} <strong>{isMessageKey(phaseKey) ? t(phaseKey) : state.phase}</strong> · {t('replay.drawer')} <strong>{nameOf(state.drawerId)}</strong>
+          </p>
+          <DrawingCanvas enabled={false} color="#000" size={1} tool="brush" strokes={state.strokes} onBatch={noop} onUndo={noop} onRedo={noop} onClear={noop} />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={() => {
+                if (position >= duration) setPosition(0)
+                setPlaying((p) => !p)
+              }}
+              className="rounded bg-cyan-500 px-3 py-1 font-semibold text-slate-950"
+            >
+              {playing ? t('replay.pause') : t('replay.play')}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="tabular-nums">{Math.floor(position / 1000)}s / {Math.floor(duration / 1000)}s</span>
+            <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="rounded bg-slate-800 p-1">
+              {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+            </select>
+          </div>
+          <ul className="h-32 space-y-1 overflow-y-auto rounded bg-slate-800 p-2 text-sm">
+            {state.feed.map((event, i) => <li key={i}>{describe(event)}</li>)}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { useI18n, type ServerError } from '../lib/i18n'
+import { socket } from '../lib/socket'
+
+type Props = { locked: boolean; hasPassword: boolean; isPublic: boolean; name: string }
+
+// Host controls for who may join: list the room publicly, lock it or require a password.
+export function RoomAccessPanel({ locked, hasPassword, isPublic, name }: Props) {
+  const [password, setPassword] = useState('')
+  const [roomName, setRoomName] = useState(name)
+  const { t, errorText } = useI18n()
+
+  const emit = (event: string, payload: object) => {
+    socket.emit(event, payload, (res: Partial<ServerError>) => {
+      if (res.error) alert(errorText(res))
+    })
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <div className="flex gap-2">
+        <input
+          maxLength={40}
+          value={roomName}
+          onChange={(e) => setRoomName(e.target.value)}
+          onBlur={() => roomName.trim() && roomName !== name && emit('room:visibility', { isPublic, name: roomName })}
+          placeholder={t('access.roomName')}
+          className="min-w-0 flex-1 rounded bg-slate-800 p-1"
+        />
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={isPublic} onChange={(e) => emit('room:visibility', { isPublic: e.target.checked, name: roomName })} />
+          {t('access.public')}
+        </label>
+      </div>
+      <button onClick={() => emit('room:lock', { locked: !locked })} className="w-full rounded bg-slate-700 py-1">
+        {locked ? t('access.unlock') : t('access.lock')}
+      </button>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          emit('room:password', { password })
+          setPassword('')
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="password"
+          maxLength={64}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={hasPassword ? t('access.newPassword') : t('access.password')}
+          className="min-w-0 flex-1 rounded bg-slate-800 p-1"
+        />
+        <button className="rounded bg-slate-700 px-2">{t('access.setPassword')}</button>
+        {hasPassword && (
+          <button type="button" onClick={() => emit('room:password', { password: '' })} className="rounded bg-slate-700 px-2">
+            {t('access.removePassword')}
+          </button>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useI18n, type ServerError } from '../lib/i18n'
+import { socket } from '../lib/socket'
+
+export type RoomSettings = {
+  mode: 'classic' | 'category' | 'blind' | 'undercover'
+  turnSeconds: number
+  laps: number
+  turnOrder: 'fixed' | 'random'
+  minPlayers: number
+  maxPlayers: number
+  imposterCount: number
+  impostersKnowEachOther: boolean
+  discussionSeconds: number
+  votingSeconds: number
+  tieRule: 'revote' | 'imposterWins'
+  guessAttempts: number
+  allowSpectatorSeats: boolean
+  chatFilter: 'off' | 'mask' | 'block'
+  quietWhileDrawing: boolean
+  pointsCorrectVote: number
+  pointsSpeedBonus: number
+  pointsImposterSurvived: number
+  pointsCorrectGuess: number
+  pointsUnsuspected: number
+  matchRounds: number
+}
+
+const GAME_MODES = ['classic', 'category', 'blind', 'undercover'] as const
+
+const NUMBER_FIELDS: { key: Exclude<keyof RoomSettings, 'mode' | 'turnOrder' | 'impostersKnowEachOther' | 'tieRule' | 'allowSpectatorSeats' | 'chatFilter' | 'quietWhileDrawing'>; min: number; max: number }[] = [
+  { key: 'turnSeconds', min: 5, max: 120 },
+  { key: 'laps', min: 1, max: 3 },
+  { key: 'minPlayers', min: 3, max: 16 },
+  { key: 'maxPlayers', min: 3, max: 16 },
+  { key: 'imposterCount', min: 0, max: 5 },
+  { key: 'discussionSeconds', min: 0, max: 300 },
+  { key: 'votingSeconds', min: 10, max: 180 },
+  { key: 'guessAttempts', min: 1, max: 5 },
+  { key: 'matchRounds', min: 0, max: 20 },
+  { key: 'pointsCorrectVote', min: 0, max: 10 },
+  { key: 'pointsSpeedBonus', min: 0, max: 10 },
+  { key: 'pointsImposterSurvived', min: 0, max: 10 },
+  { key: 'pointsCorrectGuess', min: 0, max: 10 },
+  { key: 'pointsUnsuspected', min: 0, max: 10 }
+]
+
+export function RoomSettingsPanel({ settings, editable }: { settings: RoomSettings; editable: boolean }) {
+  const { t, errorText } = useI18n()
+  const update = (patch: Partial<RoomSettings>) => {
+    socket.emit('room:settings', patch, (res: Partial<ServerError>) => {
+      if (res.error) alert(errorText(res))
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      {NUMBER_FIELDS.map((field) => (
+        <label key={field.key} className="flex flex-col gap-1">
+          <span className="text-slate-300">{t(`settings.${field.key}`)}</span>
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            disabled={!editable}
+            defaultValue={settings[field.key]}
+            key={settings[field.key]}
+            onBlur={(e) => {
+              const value = Number(e.target.value)
+              if (value !== settings[field.key]) update({ [field.key]: value })
+            }}
+            className="rounded bg-slate-800 p-1"
+          />
+        </label>
+      ))}
+      <label className="col-span-2 flex flex-col gap-1">
+        <span className="text-slate-300">{t('settings.mode')}</span>
+        <select
+          disabled={!editable}
+          value={settings.mode}
+          onChange={(e) => update({ mode: e.target.value as RoomSettings['mode'] })}
+          className="rounded bg-slate-800 p-1"
+        >
+          {GAME_MODES.map((mode) => (
+            <option key={mode} value={mode}>{t(`settings.mode.${mode}`)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span className="text-slate-300">{t('settings.turnOrder')}</span>
+        <select
+          disabled={!editable}
+          value={settings.turnOrder}
+          onChange={(e) => update({ turnOrder: e.target.value as RoomSettings['turnOrder'] })}
+          className="rounded bg-slate-800 p-1"
+        >
+          <option value="fixed">{t('settings.turnOrder.fixed')}</option>
+          <option value="random">{t('settings.turnOrder.random')}</option>
+        </select>
+      </label>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span className="text-slate-300">{t('settings.tieRule')}</span>
+        <select
+          disabled={!editable}
+          value={settings.tieRule}
+          onChange={(e) => update({ tieRule: e.target.value as RoomSettings['tieRule'] })}
+          className="rounded bg-slate-800 p-1"
+        >
+          <option value="revote">{t('settings.tieRule.revote')}</option>
+          <option value="imposterWins">{t('settings.tieRule.imposterWins')}</option>
+        </select>
+      </label>
+      <label className="col-span-2 flex flex-col gap-1">
+        <span className="text-slate-300">{t('settings.chatFilter')}</span>
+        <select
+          disabled={!editable}
+          value={settings.chatFilter}
+          onChange={(e) => update({ chatFilter: e.target.value as RoomSettings['chatFilter'] })}
+          className="rounded bg-slate-800 p-1"
+        >
+          <option value="mask">{t('settings.chatFilter.mask')}</option>
+          <option value="block">{t('settings.chatFilter.block')}</option>
+          <option value="off">{t('settings.chatFilter.off')}</option>
+        </select>
+      </label>
+      <label className="col-span-2 flex items-center gap-2">
+        <input
+          type="checkbox"
+          disabled={!editable}
+          checked={settings.quietWhileDrawing}
+          onChange={(e) => update({ quietWhileDrawing: e.target.checked })}
+        />
+        <span className="text-slate-300">{t('settings.quietWhileDrawing')}</span>
+      </label>
+      <label className="col-span-2 flex items-center gap-2">
+        <input
+          type="checkbox"
+          disabled={!editable}
+          checked={settings.impostersKnowEachOther}
+          onChange={(e) => update({ impostersKnowEachOther: e.target.checked })}
+        />
+        <span className="text-slate-300">{t('settings.impostersKnowEachOther')}</span>
+      </label>
+      <label className="col-span-2 flex items-center gap-2">
+        <input
+          type="checkbox"
+          disabled={!editable}
+          checked={settings.allowSpectatorSeats}
+          onChange={(e) => update({ allowSpectatorSeats: e.target.checked })}
+        />
+        <span className="text-slate-300">{t('settings.allowSpectatorSeats')}</span>
+      </label>
+    </div>
+  )
+}
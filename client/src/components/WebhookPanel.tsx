@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import { useI18n, type ServerError } from '../lib/i18n'
+import { socket } from '../lib/socket'
+
+type Delivery = { id: string; event: string; url: string; attempts: number; status: number | null; ok: boolean; error?: string; sentAt: number }
+type WebhookState = { urls: string[]; secret: string | null; deliveries: Delivery[] }
+
+// Host tool: URLs that get the room's events as signed POSTs, the signing secret and recent deliveries.
+export function WebhookPanel() {
+  const { t, errorText } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [state, setState] = useState<WebhookState | null>(null)
+  const [urls, setUrls] = useState('')
+
+  const load = () => {
+    socket.emit('webhooks:get', {}, (res: WebhookState & Partial<ServerError>) => {
+      if (res.error) return alert(errorText(res))
+      setState(res)
+      setUrls(res.urls.join('\n'))
+    })
+  }
+
+  useEffect(() => {
+    if (open) load()
+  }, [open])
+
+  const save = () => {
+    const list = urls.split('\n').map((url) => url.trim()).filter(Boolean)
+    socket.emit('webhooks:set', { urls: list }, (res: Partial<ServerError>) => {
+      if (res.error) return alert(errorText(res))
+      load()
+    })
+  }
+
+  return (
+    <div className="mt-3 text-sm">
+      <button onClick={() => setOpen((o) => !o)} className="w-full rounded bg-slate-700 py-1">{t('webhooks.title')}</button>
+      {open && state && (
+        <div className="mt-2 space-y-2">
+          <p className="text-xs text-slate-400">{t('webhooks.hint')}</p>
+          <textarea
+            rows={3}
+            value={urls}
+            onChange={(e) => setUrls(e.target.value)}
+            placeholder="https://example.com/hook"
+            className="w-full rounded bg-slate-800 p-1 font-mono text-xs"
+          />
+          <div className="flex gap-2">
+            <button onClick={save} className="rounded bg-cyan-500 px-2 py-1 font-semibold text-slate-950">{t('webhooks.save')}</button>
+            <button onClick={load} className="rounded bg-slate-700 px-2 py-1">{t('webhooks.refresh')}</button>
+          </div>
+          {state.secret && (
+            <p className="break-all text-xs">
+              {t('webhooks.secret')} <code className="rounded bg-slate-800 px-1">{state.secret}</code>
+            </p>
+          )}
+          {state.deliveries.length > 0 && (
+            <ul className="max-h-40 space-y-1 overflow-y-auto text-xs">
+              {state.deliveries.map((d) => (
+                <li key={d.id} className={d.ok ? 'text-emerald-300' : 'text-rose-300'}>
+                  {new Date(d.sentAt).toLocaleTimeString()} {d.event} → {d.url}: {d.status ?? d.error ?? '…'} ({t('webhooks.attempts', { n: d.attempts })})
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { socket } from './socket'
+
+const SAMPLES = 5
+
+// server time minus local time, measured on every (re)connect
+let offset = 0
+
+export function serverNow() {
+  return Date.now() + offset
+}
+
+function sample() {
+  return new Promise<{ offset: number; rtt: number }>((resolve) => {
+    const sentAt = Date.now()
+    socket.emit('time:sync', {}, ({ serverTime }: { serverTime: number }) => {
+      const receivedAt = Date.now()
+      const rtt = receivedAt - sentAt
+      resolve({ offset: serverTime + rtt / 2 - receivedAt, rtt })
+    })
+  })
+}
+
+// Takes a few samples one after another and trusts the one with the shortest round trip,
+// since its reply spent the least time on the wire.
+export async function syncClock() {
+  let best: { offset: number; rtt: number } | null = null
+  for (let i = 0; i < SAMPLES; i++) {
+    const next = await sample()
+    if (!best || next.rtt < best.rtt) best = next
+  }
+  if (best) offset = best.offset
+}
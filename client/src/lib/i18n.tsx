@@ -0,0 +1,84 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { de, type Messages } from '../locales/de'
+import { en } from '../locales/en'
+
+export type Lang = 'de' | 'en'
+export type MessageKey = keyof Messages
+export type Params = Record<string, string | number>
+// error acks and server:error payloads carry a code instead of a message
+export type ServerError = { event?: string; error: string; params?: Params; details?: string }
+
+export const LANGUAGES: { id: Lang; label: string }[] = [
+  { id: 'de', label: 'Deutsch' },
+  { id: 'en', label: 'English' }
+]
+
+const BUNDLES: Record<Lang, Messages> = { de, en }
+const LANG_KEY = 'drawing-imposter:lang'
+
+function initialLang(): Lang {
+  const stored = localStorage.getItem(LANG_KEY)
+  if (stored === 'de' || stored === 'en') return stored
+  return navigator.language.toLowerCase().startsWith('de') ? 'de' : 'en'
+}
+
+export function isMessageKey(key: string): key is MessageKey {
+  return key in de
+}
+
+export function translate(lang: Lang, key: MessageKey, params?: Params) {
+  return BUNDLES[lang][key].replace(/\{(\w+)\}/g, (match, name: string) => (params && name in params ? String(params[name]) : match))
+}
+
+type I18n = {
+  lang: Lang
+  setLang: (lang: Lang) => void
+  t: (key: MessageKey, params?: Params) => string
+  errorText: (err: Partial<ServerError>) => string
+}
+
+const I18nContext = createContext<I18n | null>(null)
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [lang, setLangState] = useState<Lang>(initialLang)
+
+  useEffect(() => {
+    document.documentElement.lang = lang
+  }, [lang])
+
+  const value = useMemo<I18n>(() => {
+    const t = (key: MessageKey, params?: Params) => translate(lang, key, params)
+    return {
+      lang,
+      setLang: (next) => {
+        localStorage.setItem(LANG_KEY, next)
+        setLangState(next)
+      },
+      t,
+      errorText: ({ error, params }) => {
+        const key = `error.${error ?? 'UNKNOWN'}`
+        if (!isMessageKey(key)) return t('error.UNKNOWN')
+        // settings errors name the field; show its label instead
+        const field = params?.field !== undefined ? `settings.${params.field}` : ''
+        return t(key, isMessageKey(field) ? { ...params, field: t(field) } : params)
+      }
+    }
+  }, [lang])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  const ctx = useContext(I18nContext)
+  if (!ctx) throw new Error('useI18n needs an I18nProvider')
+  return ctx
+}
+
+export function LanguageSwitcher() {
+  const { lang, setLang, t } = useI18n()
+  return (
+    <select aria-label={t('app.language')} className="rounded bg-slate-800 p-1 text-sm" value={lang} onChange={(e) => setLang(e.target.value as Lang)}>
+      {LANGUAGES.map((l) => <option key={l.id} value={l.id}>{l.label}</option>)}
+    </select>
+  )
+}
@@ -0,0 +1,110 @@
+import type { Stroke } from './strokes'
+
+export type TimelineEvent = { ts: number } & (
+  | { type: 'round'; round: number }
+  | { type: 'turn'; drawerId: string }
+  | { type: 'stroke'; stroke: Stroke }
+  | { type: 'undo' | 'redo' | 'clear' }
+  | { type: 'chat'; playerId: string; name: string; message: string }
+  | { type: 'phase'; phase: string }
+  | { type: 'vote'; voterId: string; targetId: string }
+  | { type: 'eliminated'; playerId: string | null }
+  | { type: 'guess'; playerId: string; guess: string; correct: boolean }
+)
+
+export type RoundTimeline = {
+  code: string
+  round: number
+  players: { id: string; name: string }[]
+  events: TimelineEvent[]
+}
+
+export type ReplayState = {
+  drawerId: string | null
+  phase: string
+  strokes: Stroke[]
+  // chat, votes, guesses and eliminations in the order they happened
+  feed: TimelineEvent[]
+}
+
+// Folds the timeline into what the room looked like at a given moment (ms since the first event),
+// applying undo/redo and lap carry-over the same way the server does. The returned function keeps
+// its place: playing forward only folds the events since the last call, and it starts over from
+// the first event only when asked for an earlier moment. Between changes it returns the same state.
+export function createReplay(events: TimelineEvent[]) {
+  const start = events[0]?.ts ?? 0
+  let next = 0
+  let at = 0
+  let byDrawer: Record<string, Stroke[]> = {}
+  let redo: Stroke[][] = []
+  let drawerId: string | null = null
+  let phase = 'drawing'
+  let strokes: Stroke[] = []
+  let feed: TimelineEvent[] = []
+  let snapshot: ReplayState | null = null
+
+  const reset = () => {
+    next = 0
+    byDrawer = {}
+    redo = []
+    drawerId = null
+    phase = 'drawing'
+    strokes = []
+    feed = []
+    snapshot = null
+  }
+
+  const apply = (event: TimelineEvent) => {
+    switch (event.type) {
+      case 'turn':
+        if (drawerId) byDrawer[drawerId] = strokes
+        drawerId = event.drawerId
+        strokes = [...(byDrawer[event.drawerId] ?? [])]
+        redo = []
+        break
+      case 'stroke':
+        if (strokes[strokes.length - 1]?.strokeId !== event.stroke.strokeId) redo = []
+        strokes.push(event.stroke)
+        break
+      case 'undo': {
+        const last = strokes[strokes.length - 1]
+        if (!last) break
+        redo.push(strokes.filter((s) => s.strokeId === last.strokeId))
+        strokes = strokes.filter((s) => s.strokeId !== last.strokeId)
+        break
+      }
+      case 'redo': {
+        const restored = redo.pop()
+        if (restored) strokes.push(...restored)
+        break
+      }
+      case 'clear':
+        strokes = []
+        redo = []
+        break
+      case 'phase':
+        phase = event.phase
+        break
+      case 'chat':
+      case 'vote':
+      case 'guess':
+      case 'eliminated':
+        feed.push(event)
+        break
+    }
+  }
+
+  return (time: number): ReplayState => {
+    if (time < at) reset()
+    at = time
+    const from = next
+    while (next < events.length && events[next].ts - start <= time) apply(events[next++])
+    // the canvas draws appended strokes incrementally, so it needs a new array whenever they change
+    if (!snapshot || next !== from) snapshot = { drawerId, phase, strokes: strokes.slice(), feed: feed.slice() }
+    return snapshot
+  }
+}
+
+export function timelineDuration(events: TimelineEvent[]) {
+  return events.length > 1 ? events[events.length - 1].ts - events[0].ts : 0
+}
@@ -1,5 +1,40 @@
 import { io } from 'socket.io-client'
 
-export const socket = io(import.meta.env.VITE_SERVER_URL || 'http://localhost:3001', {
+export const SERVER_URL: string = import.meta.env.VITE_SERVER_URL || 'http://localhost:3001'
+
+export const socket = io(SERVER_URL, {
   autoConnect: false
 })
+
+export type StoredSession = { code: string; playerId: string; token: string }
+
+const SESSION_KEY = 'drawing-imposter:session'
+const PROFILE_KEY = 'drawing-imposter:profile'
+
+export function loadSession(): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY)
+    return raw ? (JSON.parse(raw) as StoredSession) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveSession(session: StoredSession) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY)
+}
+
+// Secret key of this device's anonymous profile; the server only publishes its hash.
+export function getProfileKey() {
+  let key = localStorage.getItem(PROFILE_KEY)
+  if (!key) {
+    const bytes = crypto.getRandomValues(new Uint8Array(24))
+    key = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+    localStorage.setItem(PROFILE_KEY, key)
+  }
+  return key
+}
@@ -0,0 +1,100 @@
+// Logical canvas shape shared by every client. Stroke coordinates are normalized
+// to 0..1 of this area and brush sizes are a fraction of its width.
+export const CANVAS_ASPECT = 4 / 3
+export const BASE_WIDTH = 800
+export const CANVAS_BACKGROUND = '#0f172a'
+
+export type Stroke = {
+  strokeId: string
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  color: string
+  size: number
+  tool: 'brush' | 'eraser'
+}
+
+// Strokes travel as batches: integer coordinates 0..COORD_SCALE, style once per batch and a
+// flat [x, y, x, y, ...] polyline that starts at the last point of the previous batch.
+export const COORD_SCALE = 10_000
+
+export type StrokeBatch = {
+  id: string
+  color: string
+  size: number
+  tool: Stroke['tool']
+  points: number[]
+}
+
+export function batchToStrokes(batch: StrokeBatch): Stroke[] {
+  const { id, color, size, tool, points } = batch
+  const strokes: Stroke[] = []
+  for (let i = 2; i + 1 < points.length; i += 2) {
+    strokes.push({
+      strokeId: id,
+      x0: points[i - 2] / COORD_SCALE,
+      y0: points[i - 1] / COORD_SCALE,
+      x1: points[i] / COORD_SCALE,
+      y1: points[i + 1] / COORD_SCALE,
+      color,
+      size,
+      tool
+    })
+  }
+  return strokes
+}
+
+export const decodeBatches = (batches: StrokeBatch[]) => batches.flatMap(batchToStrokes)
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+  const { width, height } = ctx.canvas
+  ctx.save()
+  ctx.beginPath()
+  ctx.moveTo(stroke.x0 * width, stroke.y0 * height)
+  ctx.lineTo(stroke.x1 * width, stroke.y1 * height)
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  ctx.lineWidth = stroke.size * width
+  ctx.strokeStyle = stroke.tool === 'eraser' ? CANVAS_BACKGROUND : stroke.color
+  ctx.stroke()
+  ctx.restore()
+}
+
+export function paintStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[]) {
+  ctx.fillStyle = CANVAS_BACKGROUND
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  strokes.forEach((stroke) => drawStroke(ctx, stroke))
+}
+
+export function strokesToSvg(strokes: Stroke[], width = BASE_WIDTH) {
+  const height = Math.round(width / CANVAS_ASPECT)
+  const lines = strokes.map((s) => {
+    const color = s.tool === 'eraser' ? CANVAS_BACKGROUND : s.color
+    return `<line x1="${(s.x0 * width).toFixed(1)}" y1="${(s.y0 * height).toFixed(1)}" x2="${(s.x1 * width).toFixed(1)}" y2="${(s.y1 * height).toFixed(1)}" stroke="${color}" stroke-width="${(s.size * width).toFixed(2)}" stroke-linecap="round" />`
+  })
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${CANVAS_BACKGROUND}" />`,
+    ...lines,
+    '</svg>'
+  ].join('\n')
+}
+
+export function strokesToPng(strokes: Stroke[], width = BASE_WIDTH * 2) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = Math.round(width / CANVAS_ASPECT)
+  const ctx = canvas.getContext('2d')
+  if (ctx) paintStrokes(ctx, strokes)
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
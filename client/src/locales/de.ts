@@ -0,0 +1,270 @@
+export const de = {
+  'app.tagline': 'Multiplayer Drawing Game mit Lobby-Code und Echtzeit-Sync',
+  'app.language': 'Sprache',
+
+  'start.namePlaceholder': 'Dein Name',
+  'start.create': 'Lobby erstellen',
+  'start.join': 'Lobby beitreten',
+  'start.spectate': 'Nur zuschauen',
+  'start.codePlaceholder': 'Code (z.B. ABC123)',
+  'start.connected': 'Status: Verbunden',
+  'start.disconnected': 'Status: Nicht verbunden',
+
+  'lobbies.title': 'Öffentliche Lobbys',
+  'lobbies.search': 'Suchen',
+  'lobbies.allLanguages': 'Alle Sprachen',
+  'lobbies.openOnly': 'Nur freie',
+  'lobbies.empty': 'Keine passenden Lobbys.',
+  'lobbies.players': '{players}/{max} Spieler',
+  'lobbies.running': 'Runde {round} läuft',
+  'lobbies.waiting': 'wartet',
+  'lobbies.watch': 'Zuschauen',
+  'lobbies.join': 'Beitreten',
+
+  'room.title': 'Lobby {code} · Runde {round}',
+  'room.spectating': '👀 Du schaust zu',
+  'room.word': 'Wort:',
+  'room.onlyCategory': 'nur die Kategorie „{category}“',
+  'room.noWord': 'keins – bluffe!',
+  'room.waitingForStart': 'Warte auf Start…',
+  'room.imposterTag': '(Imposter)',
+  'room.fellowImposters': 'Mit-Imposter: {names}',
+  'room.timer': 'Timer:',
+  'room.timerPaused': 'pausiert',
+  'room.pause': '⏸ Pause',
+  'room.resume': '▶ Weiter',
+  'room.endTurn': 'Fertig gezeichnet',
+  'room.takeSeat': 'Mitspielen',
+  'room.phase': 'Phase:',
+  'room.currentDrawer': 'Aktueller Zeichner:',
+  'room.kicked': 'Du wurdest aus der Lobby entfernt.',
+  'room.banned': 'Du wurdest aus der Lobby gebannt.',
+
+  'phase.lobby': 'Lobby',
+  'phase.drawing': 'Zeichnen',
+  'phase.discussion': 'Diskussion',
+  'phase.voting': 'Abstimmung',
+  'phase.lastChance': 'Letzte Chance',
+  'phase.results': 'Ergebnis',
+
+  'tools.brush': 'Pinsel',
+  'tools.eraser': 'Radierer',
+  'tools.darkMode': 'Dark-Mode',
+
+  'canvas.undo': 'Rückgängig',
+  'canvas.redo': 'Wiederholen',
+  'canvas.clear': 'Leeren',
+  'canvas.undoShortcut': 'Strg+Z',
+  'canvas.redoShortcut': 'Strg+Y',
+
+  'gallery.title': 'Zeichnungen der Runde',
+  'gallery.fileName': 'runde-{round}-{name}',
+
+  'discussion.title': 'Diskussion',
+  'discussion.hint': 'Schaut euch die Zeichnungen an und besprecht im Chat, wer nicht ins Bild passt. Danach wird abgestimmt.',
+
+  'voting.title': 'Voting: Wer ist der Imposter?',
+  'voting.eliminated': 'Rausgewählt: {list}',
+  'voting.wasImposter': 'Imposter',
+  'voting.innocent': 'unschuldig',
+  'voting.runoff': 'Gleichstand! Stichwahl zwischen {names}.',
+  'voting.spectatorsDontVote': 'Zuschauer stimmen nicht ab.',
+  'voting.youAreOut': 'Du bist raus und kannst nicht mehr abstimmen.',
+  'voting.skip': 'Überspringen',
+  'voting.progress': 'Abgestimmt: {voted}/{total} · Stimme bis zum Ablauf änderbar',
+
+  'lastChance.banner': '{name} war ein Imposter und hat eine letzte Chance, das Wort zu erraten!',
+
+  'guess.entry': '{name} rät „{guess}“',
+  'guess.lastChanceTag': ' (letzte Chance)',
+  'guess.correct': '✅ richtig',
+  'guess.wrong': '❌ falsch',
+  'guess.title': 'Imposter Guess',
+  'guess.lastChance': '(letzte Chance)',
+  'guess.attemptsLeft': '({count} Versuche übrig)',
+  'guess.placeholder': 'Echtes Wort eingeben',
+  'guess.submit': 'Einreichen',
+  'guess.correctAlert': 'Richtig! Du gewinnst als Imposter.',
+  'guess.wrongAlert': 'Leider falsch.',
+
+  'results.imposterWas': 'Runde beendet. Der Imposter war:',
+  'results.impostersWere': 'Runde beendet. Die Imposter waren:',
+  'results.mode.classic': 'Das Wort war „{word}“, der Imposter hatte „{fake}“.',
+  'results.mode.category': 'Das Wort war „{word}“, der Imposter kannte nur die Kategorie „{category}“.',
+  'results.mode.blind': 'Das Wort war „{word}“, der Imposter hatte gar kein Wort.',
+  'results.mode.undercover': 'Das Wort war „{word}“. Der Imposter hatte „{fake}“, ohne es zu wissen.',
+  'results.voteRound': 'Abstimmung {n}:',
+  'results.tie': 'Gleichstand',
+  'results.eliminated': '{name} rausgewählt',
+  'results.nobody': 'niemand rausgewählt',
+  'results.skipped': 'übersprungen',
+  'results.nextRound': 'Nächste Runde',
+  'results.watchReplay': 'Replay ansehen',
+  'results.points': 'Punkte dieser Runde',
+  'results.score.correctVotes': 'richtige Stimme +{n}',
+  'results.score.speedBonus': 'Tempo +{n}',
+  'results.score.survived': 'unentdeckt +{n}',
+  'results.score.correctGuess': 'Wort erraten +{n}',
+  'results.score.unsuspected': 'unverdächtig gezeichnet +{n}',
+  'results.podium': 'Siegerpodest',
+  'results.newMatch': 'Neues Match',
+
+  'players.title': 'Spieler ({count}/{max})',
+  'players.disconnected': '(getrennt)',
+  'players.transferHost': 'Host übergeben',
+  'players.kick': 'Kick',
+  'players.ban': 'Bann',
+  'players.spectators': '👀 Zuschauer:',
+  'players.start': 'Spiel starten (min. {min})',
+  'players.addBot': '🤖 Bot hinzufügen',
+
+  'access.lock': '🔒 Lobby sperren',
+  'access.unlock': '🔓 Lobby öffnen',
+  'access.roomName': 'Name der Lobby',
+  'access.public': 'Öffentlich',
+  'access.password': 'Passwort (optional)',
+  'access.newPassword': 'Neues Passwort',
+  'access.setPassword': 'Setzen',
+  'access.removePassword': 'Entfernen',
+
+  'webhooks.title': 'Webhooks',
+  'webhooks.hint': 'Eine URL pro Zeile (höchstens 3). Sie bekommen Rundenstart, Abstimmung und Ergebnis als signiertes JSON.',
+  'webhooks.save': 'Speichern',
+  'webhooks.refresh': 'Aktualisieren',
+  'webhooks.secret': 'Signatur-Schlüssel:',
+  'webhooks.attempts': '{n} Versuch(e)',
+
+  'settings.title': 'Einstellungen',
+  'settings.turnSeconds': 'Sekunden pro Zug',
+  'settings.laps': 'Zeichenrunden',
+  'settings.minPlayers': 'Min. Spieler',
+  'settings.maxPlayers': 'Max. Spieler',
+  'settings.imposterCount': 'Imposter (0 = automatisch)',
+  'settings.discussionSeconds': 'Sekunden Diskussion (0 = keine)',
+  'settings.votingSeconds': 'Sekunden fürs Voting',
+  'settings.guessAttempts': 'Rateversuche',
+  'settings.turnOrder': 'Reihenfolge',
+  'settings.turnOrder.fixed': 'Beitrittsreihenfolge',
+  'settings.turnOrder.random': 'Zufällig',
+  'settings.mode': 'Spielmodus',
+  'settings.mode.classic': 'Klassisch: Imposter bekommt ein anderes Wort',
+  'settings.mode.category': 'Kategorie: Imposter kennt nur die Kategorie',
+  'settings.mode.blind': 'Blind: Imposter bekommt kein Wort',
+  'settings.mode.undercover': 'Undercover: niemand weiß, wer ein anderes Wort hat',
+  'settings.tieRule': 'Bei Gleichstand',
+  'settings.tieRule.revote': 'Stichwahl',
+  'settings.tieRule.imposterWins': 'Imposter gewinnt',
+  'settings.chatFilter': 'Wort im Chat',
+  'settings.chatFilter.mask': 'Ausblenden',
+  'settings.chatFilter.block': 'Nachricht blockieren',
+  'settings.chatFilter.off': 'Nicht filtern',
+  'settings.quietWhileDrawing': 'Kein Chat während gezeichnet wird',
+  'settings.impostersKnowEachOther': 'Imposter kennen sich',
+  'settings.allowSpectatorSeats': 'Zuschauer dürfen nachrücken',
+  'settings.matchRounds': 'Runden pro Match (0 = endlos)',
+  'settings.pointsCorrectVote': 'Punkte: richtige Stimme',
+  'settings.pointsSpeedBonus': 'Punkte: Tempo-Bonus',
+  'settings.pointsImposterSurvived': 'Punkte: Imposter unentdeckt',
+  'settings.pointsCorrectGuess': 'Punkte: Wort erraten',
+  'settings.pointsUnsuspected': 'Punkte: ohne Stimmen gezeichnet',
+
+  'packs.title': 'Wortpakete',
+  'packs.language': 'Sprache der Wörter',
+  'packs.summary': '{categories} Kat. · {pairs} Paare',
+
+  'chat.title': 'Chat',
+  'chat.send': 'Senden',
+  'chat.muted': 'Chat ist während des Zeichnens aus',
+
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.room': 'Lobby',
+  'leaderboard.global': 'Global',
+  'leaderboard.points': '{points} P.',
+  'leaderboard.match': 'Runde {round}/{total}',
+  'leaderboard.empty': 'Noch keine Einträge.',
+  'leaderboard.details': '{games} Spiele · {imposterWins} Siege als Imposter · {crewWins} Siege als Crew',
+  'leaderboard.accuracy': ' · {percent}% Treffer beim Raten',
+
+  'replay.title': 'Replay Runde {round}',
+  'replay.close': 'Schließen',
+  'replay.drawer': 'Zeichner:',
+  'replay.play': 'Abspielen',
+  'replay.pause': 'Pause',
+  'replay.guess': '❓ {name} rät „{guess}“ {result}',
+  'replay.eliminated': '🚪 {name} wurde rausgewählt',
+  'replay.nobodyEliminated': '🚪 Niemand wurde rausgewählt',
+
+  'system.playerJoined': '{name} ist beigetreten.',
+  'system.spectatorJoined': '{name} schaut zu.',
+  'system.playerSeated': '{name} spielt jetzt mit.',
+  'system.playerLeft': '{name} hat die Lobby verlassen.',
+  'system.playerKicked': '{name} wurde vom Host entfernt.',
+  'system.playerBanned': '{name} wurde vom Host gebannt.',
+  'system.hostChanged': '{name} ist jetzt Host.',
+  'system.roomLocked': 'Der Host hat die Lobby gesperrt.',
+  'system.roomUnlocked': 'Der Host hat die Lobby geöffnet.',
+  'system.passwordSet': 'Der Host hat ein Passwort gesetzt.',
+  'system.passwordRemoved': 'Der Host hat das Passwort entfernt.',
+  'system.roomPublic': 'Die Lobby ist jetzt öffentlich als „{name}“.',
+  'system.roomPrivate': 'Die Lobby ist jetzt privat.',
+  'system.languageChanged': 'Die Wörter kommen jetzt auf {language}.',
+  'system.turnStarted': '{name} zeichnet jetzt.',
+  'system.discussionStarted': 'Alle Zeichnungen sind fertig – diskutiert!',
+  'system.timerPaused': 'Der Host hat den Timer angehalten.',
+  'system.timerResumed': 'Der Timer läuft weiter.',
+  'system.votingStarted': 'Abstimmung läuft: Wer ist der Imposter?',
+  'system.runoffStarted': 'Gleichstand – Stichwahl!',
+  'system.voteCast': '{name} hat abgestimmt.',
+  'system.crewWins': 'Die Crew gewinnt! Imposter: {imposters}. Das Wort war „{word}“.',
+  'system.impostersWin': 'Die Imposter gewinnen! Imposter: {imposters}. Das Wort war „{word}“.',
+  'system.matchWon': '{name} gewinnt das Match mit {points} Punkten!',
+
+  'error.UNKNOWN': 'Unbekannter Fehler.',
+  'error.INVALID_PAYLOAD': 'Ungültige Anfrage.',
+  'error.RATE_LIMITED': 'Zu viele Anfragen, bitte kurz warten.',
+  'error.INTERNAL': 'Interner Fehler.',
+  'error.NOT_IN_ROOM': 'Du bist in keiner Lobby.',
+  'error.SESSION_EXPIRED': 'Sitzung abgelaufen.',
+  'error.TOO_MANY_ROOMS': 'Der Server ist gerade voll.',
+  'error.ROOM_NOT_FOUND': 'Lobby nicht gefunden.',
+  'error.ROOM_FULL': 'Lobby ist voll.',
+  'error.ROOM_LOCKED': 'Die Lobby ist gesperrt.',
+  'error.PASSWORD_REQUIRED': 'Die Lobby braucht ein Passwort.',
+  'error.WRONG_PASSWORD': 'Falsches Passwort.',
+  'error.BANNED': 'Du wurdest aus dieser Lobby gebannt.',
+  'error.TOO_MANY_SPECTATORS': 'Zu viele Zuschauer.',
+  'error.ALREADY_PLAYING': 'Du spielst bereits mit.',
+  'error.SEATS_DISABLED': 'Der Host lässt keine Zuschauer nachrücken.',
+  'error.HOST_ONLY': 'Das darf nur der Host.',
+  'error.ROUND_IN_PROGRESS': 'Das geht nur zwischen den Runden.',
+  'error.NOT_ENOUGH_PLAYERS': 'Mindestens {min} Spieler nötig.',
+  'error.INVALID_SETTING': 'Ungültiger Wert für „{field}“.',
+  'error.SETTING_OUT_OF_RANGE': '„{field}“ muss zwischen {min} und {max} liegen.',
+  'error.TOO_MANY_PLAYERS_FOR_LIMIT': 'Es sind bereits {players} Spieler in der Lobby.',
+  'error.NO_VALID_PACK': 'Mindestens ein gültiges Wortpaket wählen.',
+  'error.UNKNOWN_LANGUAGE': 'Für diese Sprache gibt es keine Wortpakete.',
+  'error.UNKNOWN_PLAYER': 'Unbekannter Spieler.',
+  'error.CANNOT_BAN': 'Spieler ohne Profil können nur gekickt werden.',
+  'error.NOT_YOUR_TURN': 'Du bist nicht am Zug.',
+  'error.NO_TIMER': 'Gerade läuft kein Timer.',
+  'error.DRAWING_FULL': 'Die Zeichnung ist voll.',
+  'error.CHAT_MUTED': 'Während gezeichnet wird, ist der Chat aus.',
+  'error.CHAT_LEAKS_WORD': 'Die Nachricht verrät das Wort.',
+  'error.CANNOT_VOTE': 'Du kannst gerade nicht abstimmen.',
+  'error.INVALID_VOTE': 'Ungültige Stimme.',
+  'error.CANNOT_GUESS': 'Du kannst gerade nicht raten.',
+  'error.NO_GUESSES_LEFT': 'Keine Versuche mehr übrig.',
+  'error.TOO_MANY_WEBHOOKS': 'Höchstens {max} Webhook-URLs.',
+  'error.INVALID_WEBHOOK': 'Ungültige Webhook-URL: {url}',
+  'error.ROUND_NOT_FOUND': 'Runde nicht gefunden.',
+  'error.ROUND_RUNNING': 'Die Runde läuft noch.',
+  'error.ROOM_PRIVATE': 'Diese Lobby ist nur für ihre Mitglieder sichtbar.',
+  'error.PLAYER_NOT_FOUND': 'Spieler nicht gefunden.',
+  'error.PACK_NOT_FOUND': 'Wortpaket nicht gefunden.',
+  'error.ADMIN_ONLY': 'Nur mit dem Admin-Token möglich.',
+  'error.PACK_PROTECTED': 'Mitgelieferte Wortpakete lassen sich nicht ändern.',
+  'error.PACK_EXISTS': 'Ein Wortpaket mit dieser ID gibt es schon.',
+  'error.INVALID_PACK': 'Ungültiges Wortpaket.'
+}
+
+export type Messages = typeof de
@@ -0,0 +1,270 @@
+import type { Messages } from './de'
+
+export const en: Messages = {
+  'app.tagline': 'Multiplayer drawing game with room codes and real-time sync',
+  'app.language': 'Language',
+
+  'start.namePlaceholder': 'Your name',
+  'start.create': 'Create room',
+  'start.join': 'Join room',
+  'start.spectate': 'Just watch',
+  'start.codePlaceholder': 'Code (e.g. ABC123)',
+  'start.connected': 'Status: connected',
+  'start.disconnected': 'Status: not connected',
+
+  'lobbies.title': 'Public rooms',
+  'lobbies.search': 'Search',
+  'lobbies.allLanguages': 'All languages',
+  'lobbies.openOnly': 'Open only',
+  'lobbies.empty': 'No matching rooms.',
+  'lobbies.players': '{players}/{max} players',
+  'lobbies.running': 'Round {round} running',
+  'lobbies.waiting': 'waiting',
+  'lobbies.watch': 'Watch',
+  'lobbies.join': 'Join',
+
+  'room.title': 'Room {code} · Round {round}',
+  'room.spectating': '👀 You are watching',
+  'room.word': 'Word:',
+  'room.onlyCategory': 'only the category “{category}”',
+  'room.noWord': 'none – bluff!',
+  'room.waitingForStart': 'Waiting for start…',
+  'room.imposterTag': '(Imposter)',
+  'room.fellowImposters': 'Fellow imposters: {names}',
+  'room.timer': 'Timer:',
+  'room.timerPaused': 'paused',
+  'room.pause': '⏸ Pause',
+  'room.resume': '▶ Resume',
+  'room.endTurn': 'Done drawing',
+  'room.takeSeat': 'Join the game',
+  'room.phase': 'Phase:',
+  'room.currentDrawer': 'Drawing now:',
+  'room.kicked': 'You were removed from the room.',
+  'room.banned': 'You were banned from the room.',
+
+  'phase.lobby': 'Lobby',
+  'phase.drawing': 'Drawing',
+  'phase.discussion': 'Discussion',
+  'phase.voting': 'Voting',
+  'phase.lastChance': 'Last chance',
+  'phase.results': 'Results',
+
+  'tools.brush': 'Brush',
+  'tools.eraser': 'Eraser',
+  'tools.darkMode': 'Dark mode',
+
+  'canvas.undo': 'Undo',
+  'canvas.redo': 'Redo',
+  'canvas.clear': 'Clear',
+  'canvas.undoShortcut': 'Ctrl+Z',
+  'canvas.redoShortcut': 'Ctrl+Y',
+
+  'gallery.title': 'Drawings of this round',
+  'gallery.fileName': 'round-{round}-{name}',
+
+  'discussion.title': 'Discussion',
+  'discussion.hint': 'Look at the drawings and talk in the chat about who does not fit. Voting comes next.',
+
+  'voting.title': 'Voting: who is the imposter?',
+  'voting.eliminated': 'Voted out: {list}',
+  'voting.wasImposter': 'imposter',
+  'voting.innocent': 'innocent',
+  'voting.runoff': 'Tie! Runoff between {names}.',
+  'voting.spectatorsDontVote': 'Spectators do not vote.',
+  'voting.youAreOut': 'You are out and cannot vote anymore.',
+  'voting.skip': 'Skip',
+  'voting.progress': 'Voted: {voted}/{total} · You can change your vote until time runs out',
+
+  'lastChance.banner': '{name} was an imposter and gets one last chance to guess the word!',
+
+  'guess.entry': '{name} guesses “{guess}”',
+  'guess.lastChanceTag': ' (last chance)',
+  'guess.correct': '✅ correct',
+  'guess.wrong': '❌ wrong',
+  'guess.title': 'Imposter guess',
+  'guess.lastChance': '(last chance)',
+  'guess.attemptsLeft': '({count} attempts left)',
+  'guess.placeholder': 'Enter the real word',
+  'guess.submit': 'Submit',
+  'guess.correctAlert': 'Correct! You win as the imposter.',
+  'guess.wrongAlert': 'Sorry, that is wrong.',
+
+  'results.imposterWas': 'Round over. The imposter was:',
+  'results.impostersWere': 'Round over. The imposters were:',
+  'results.mode.classic': 'The word was “{word}”, the imposter had “{fake}”.',
+  'results.mode.category': 'The word was “{word}”, the imposter only knew the category “{category}”.',
+  'results.mode.blind': 'The word was “{word}”, the imposter had no word at all.',
+  'results.mode.undercover': 'The word was “{word}”. The imposter had “{fake}” without knowing it.',
+  'results.voteRound': 'Vote {n}:',
+  'results.tie': 'tie',
+  'results.eliminated': '{name} voted out',
+  'results.nobody': 'nobody voted out',
+  'results.skipped': 'skipped',
+  'results.nextRound': 'Next round',
+  'results.watchReplay': 'Watch replay',
+  'results.points': 'Points this round',
+  'results.score.correctVotes': 'correct vote +{n}',
+  'results.score.speedBonus': 'speed +{n}',
+  'results.score.survived': 'undetected +{n}',
+  'results.score.correctGuess': 'guessed the word +{n}',
+  'results.score.unsuspected': 'drew unsuspected +{n}',
+  'results.podium': 'Podium',
+  'results.newMatch': 'New match',
+
+  'players.title': 'Players ({count}/{max})',
+  'players.disconnected': '(disconnected)',
+  'players.transferHost': 'Make host',
+  'players.kick': 'Kick',
+  'players.ban': 'Ban',
+  'players.spectators': '👀 Spectators:',
+  'players.start': 'Start game (min. {min})',
+  'players.addBot': '🤖 Add bot',
+
+  'access.lock': '🔒 Lock room',
+  'access.unlock': '🔓 Unlock room',
+  'access.roomName': 'Room name',
+  'access.public': 'Public',
+  'access.password': 'Password (optional)',
+  'access.newPassword': 'New password',
+  'access.setPassword': 'Set',
+  'access.removePassword': 'Remove',
+
+  'webhooks.title': 'Webhooks',
+  'webhooks.hint': 'One URL per line (at most 3). They receive round start, voting and results as signed JSON.',
+  'webhooks.save': 'Save',
+  'webhooks.refresh': 'Refresh',
+  'webhooks.secret': 'Signing secret:',
+  'webhooks.attempts': '{n} attempt(s)',
+
+  'settings.title': 'Settings',
+  'settings.turnSeconds': 'Seconds per turn',
+  'settings.laps': 'Drawing laps',
+  'settings.minPlayers': 'Min. players',
+  'settings.maxPlayers': 'Max. players',
+  'settings.imposterCount': 'Imposters (0 = automatic)',
+  'settings.discussionSeconds': 'Seconds of discussion (0 = none)',
+  'settings.votingSeconds': 'Seconds for voting',
+  'settings.guessAttempts': 'Guess attempts',
+  'settings.turnOrder': 'Turn order',
+  'settings.turnOrder.fixed': 'Join order',
+  'settings.turnOrder.random': 'Random',
+  'settings.mode': 'Game mode',
+  'settings.mode.classic': 'Classic: the imposter gets a different word',
+  'settings.mode.category': 'Category: the imposter only knows the category',
+  'settings.mode.blind': 'Blind: the imposter gets no word',
+  'settings.mode.undercover': 'Undercover: nobody knows who has a different word',
+  'settings.tieRule': 'On a tie',
+  'settings.tieRule.revote': 'Runoff',
+  'settings.tieRule.imposterWins': 'Imposter wins',
+  'settings.chatFilter': 'Word in chat',
+  'settings.chatFilter.mask': 'Mask it',
+  'settings.chatFilter.block': 'Block the message',
+  'settings.chatFilter.off': 'Do not filter',
+  'settings.quietWhileDrawing': 'No chat while someone is drawing',
+  'settings.impostersKnowEachOther': 'Imposters know each other',
+  'settings.allowSpectatorSeats': 'Spectators may take free seats',
+  'settings.matchRounds': 'Rounds per match (0 = endless)',
+  'settings.pointsCorrectVote': 'Points: correct vote',
+  'settings.pointsSpeedBonus': 'Points: speed bonus',
+  'settings.pointsImposterSurvived': 'Points: imposter undetected',
+  'settings.pointsCorrectGuess': 'Points: guessed the word',
+  'settings.pointsUnsuspected': 'Points: drew without votes',
+
+  'packs.title': 'Word packs',
+  'packs.language': 'Word language',
+  'packs.summary': '{categories} cat. · {pairs} pairs',
+
+  'chat.title': 'Chat',
+  'chat.send': 'Send',
+  'chat.muted': 'Chat is off while someone is drawing',
+
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.room': 'Room',
+  'leaderboard.global': 'Global',
+  'leaderboard.points': '{points} pts',
+  'leaderboard.match': 'Round {round}/{total}',
+  'leaderboard.empty': 'No entries yet.',
+  'leaderboard.details': '{games} games · {imposterWins} wins as imposter · {crewWins} wins as crew',
+  'leaderboard.accuracy': ' · {percent}% correct guesses',
+
+  'replay.title': 'Replay round {round}',
+  'replay.close': 'Close',
+  'replay.drawer': 'Drawing:',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.guess': '❓ {name} guesses “{guess}” {result}',
+  'replay.eliminated': '🚪 {name} was voted out',
+  'replay.nobodyEliminated': '🚪 Nobody was voted out',
+
+  'system.playerJoined': '{name} joined.',
+  'system.spectatorJoined': '{name} is watching.',
+  'system.playerSeated': '{name} is playing now.',
+  'system.playerLeft': '{name} left the room.',
+  'system.playerKicked': '{name} was removed by the host.',
+  'system.playerBanned': '{name} was banned by the host.',
+  'system.hostChanged': '{name} is the host now.',
+  'system.roomLocked': 'The host locked the room.',
+  'system.roomUnlocked': 'The host unlocked the room.',
+  'system.passwordSet': 'The host set a password.',
+  'system.passwordRemoved': 'The host removed the password.',
+  'system.roomPublic': 'The room is now public as “{name}”.',
+  'system.roomPrivate': 'The room is now private.',
+  'system.languageChanged': 'Words are now in {language}.',
+  'system.turnStarted': '{name} is drawing now.',
+  'system.discussionStarted': 'All drawings are done – discuss!',
+  'system.timerPaused': 'The host paused the timer.',
+  'system.timerResumed': 'The timer is running again.',
+  'system.votingStarted': 'Voting started: who is the imposter?',
+  'system.runoffStarted': 'Tie – runoff vote!',
+  'system.voteCast': '{name} voted.',
+  'system.crewWins': 'The crew wins! Imposters: {imposters}. The word was “{word}”.',
+  'system.impostersWin': 'The imposters win! Imposters: {imposters}. The word was “{word}”.',
+  'system.matchWon': '{name} wins the match with {points} points!',
+
+  'error.UNKNOWN': 'Unknown error.',
+  'error.INVALID_PAYLOAD': 'Invalid request.',
+  'error.RATE_LIMITED': 'Too many requests, please wait a moment.',
+  'error.INTERNAL': 'Internal error.',
+  'error.NOT_IN_ROOM': 'You are not in a room.',
+  'error.SESSION_EXPIRED': 'Session expired.',
+  'error.TOO_MANY_ROOMS': 'The server is full right now.',
+  'error.ROOM_NOT_FOUND': 'Room not found.',
+  'error.ROOM_FULL': 'The room is full.',
+  'error.ROOM_LOCKED': 'The room is locked.',
+  'error.PASSWORD_REQUIRED': 'This room needs a password.',
+  'error.WRONG_PASSWORD': 'Wrong password.',
+  'error.BANNED': 'You were banned from this room.',
+  'error.TOO_MANY_SPECTATORS': 'Too many spectators.',
+  'error.ALREADY_PLAYING': 'You are already playing.',
+  'error.SEATS_DISABLED': 'The host does not let spectators take seats.',
+  'error.HOST_ONLY': 'Only the host can do that.',
+  'error.ROUND_IN_PROGRESS': 'That only works between rounds.',
+  'error.NOT_ENOUGH_PLAYERS': 'At least {min} players needed.',
+  'error.INVALID_SETTING': 'Invalid value for “{field}”.',
+  'error.SETTING_OUT_OF_RANGE': '“{field}” must be between {min} and {max}.',
+  'error.TOO_MANY_PLAYERS_FOR_LIMIT': 'There are already {players} players in the room.',
+  'error.NO_VALID_PACK': 'Pick at least one valid word pack.',
+  'error.UNKNOWN_LANGUAGE': 'There are no word packs for this language.',
+  'error.UNKNOWN_PLAYER': 'Unknown player.',
+  'error.CANNOT_BAN': 'Players without a profile can only be kicked.',
+  'error.NOT_YOUR_TURN': 'It is not your turn.',
+  'error.NO_TIMER': 'No timer is running right now.',
+  'error.DRAWING_FULL': 'The drawing is full.',
+  'error.CHAT_MUTED': 'Chat is off while someone is drawing.',
+  'error.CHAT_LEAKS_WORD': 'That message gives away the word.',
+  'error.CANNOT_VOTE': 'You cannot vote right now.',
+  'error.INVALID_VOTE': 'Invalid vote.',
+  'error.CANNOT_GUESS': 'You cannot guess right now.',
+  'error.NO_GUESSES_LEFT': 'No attempts left.',
+  'error.TOO_MANY_WEBHOOKS': 'At most {max} webhook URLs.',
+  'error.INVALID_WEBHOOK': 'Invalid webhook URL: {url}',
+  'error.ROUND_NOT_FOUND': 'Round not found.',
+  'error.ROUND_RUNNING': 'The round is still running.',
+  'error.ROOM_PRIVATE': 'Only members can see this room.',
+  'error.PLAYER_NOT_FOUND': 'Player not found.',
+  'error.PACK_NOT_FOUND': 'Word pack not found.',
+  'error.ADMIN_ONLY': 'This needs the admin token.',
+  'error.PACK_PROTECTED': 'Built-in word packs cannot be changed.',
+  'error.PACK_EXISTS': 'A word pack with this id already exists.',
+  'error.INVALID_PACK': 'Invalid word pack.'
+}
@@ -0,0 +1,218 @@
+import { wordFor, type Command } from "./engine.js";
+import { scribble, sketchFor, type Point } from "./sketches.js";
+import { COORD_SCALE, MAX_BATCH_POINTS, type StrokeBatch } from "./strokes.js";
+import type { RoomState } from "./types.js";
+import { categoryWords, relatedWords } from "./words.js";
+
+// Bots act through the same engine commands a human triggers with socket events, always on
+// the room as it is when the action is due. Refused commands (wrong phase, ...) are simply dropped.
+export type BotDeps = {
+  getRoom(code: string): RoomState | undefined;
+  dispatch(code: string, command: Command): unknown;
+  // the room's own generator, so bots in a seeded room play the same every time
+  random?: (room: RoomState) => Random;
+};
+
+type Random = () => number;
+
+export const BOT_NAMES = ["Ada", "Pixel", "Klecks", "Turing", "Hopper", "Bit", "Skizze", "Lovelace"];
+
+const CHAT_CHANCE = 0.3;
+const GUESS_CHANCE = 0.5;
+const COLORS = ["#38bdf8", "#f472b6", "#facc15", "#4ade80", "#f97316", "#e2e8f0"];
+const BRUSH_SIZE = 0.008;
+// share of the turn a bot spends drawing, so its picture is done before time runs out
+const DRAW_SHARE = 0.6;
+const MIN_BATCH_GAP_MS = 150;
+
+const LINES: Record<string, { drawing: string[]; discussion: string[]; voting: string[]; accuse: string[]; results: string[] }> = {
+  de: {
+    drawing: ["Hmm…", "Was wird das denn?", "Spannend!", "Ich hab da so eine Ahnung."],
+    discussion: ["Die Zeichnung von {name} passt irgendwie nicht.", "Was sollte das bei {name} sein?", "{name}, erklär mal."],
+    voting: ["Schwierig diesmal.", "Ich bin mir nicht sicher.", "Das war knapp."],
+    accuse: ["{name} wirkt verdächtig.", "Ich tippe auf {name}.", "{name}, was war das denn?"],
+    results: ["gg", "Gut gespielt!", "Noch eine Runde?"]
+  },
+  en: {
+    drawing: ["Hmm…", "What is that going to be?", "Exciting!", "I have a hunch."],
+    discussion: ["{name}'s drawing doesn't quite fit.", "What was that supposed to be, {name}?", "{name}, explain yourself."],
+    voting: ["Tough one.", "I'm not sure.", "That was close."],
+    accuse: ["{name} looks suspicious.", "My bet is on {name}.", "{name}, what was that?"],
+    results: ["gg", "Well played!", "One more round?"]
+  }
+};
+
+const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)];
+const between = (random: Random, min: number, max: number) => min + random() * (max - min);
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+function isSeatedBot(room: RoomState, botId: string) {
+  return room.players.some((p) => p.id === botId && p.bot);
+}
+
+function botsOf(room: RoomState) {
+  return room.players.filter((p) => p.bot && !room.eliminated.includes(p.id));
+}
+
+function lineFor(random: Random, room: RoomState, kind: keyof (typeof LINES)["de"], params: Record<string, string> = {}) {
+  const line = pick(random, (LINES[room.language] ?? LINES.en)[kind]);
+  return line.replace(/\{(\w+)\}/g, (_, key: string) => params[key] ?? "");
+}
+
+// The paths a bot traces this turn. Imposters only know the fake word (or nothing to draw at all)
+// and keep it vague: just the first outlines, drawn shakier. On later laps each turn adds the next
+// share of the paths. Bots know exactly what a human in their seat would be told.
+function planPaths(random: Random, room: RoomState, botId: string): Point[][] {
+  const { word, isImposter: imposter } = wordFor(room, botId);
+  let paths = (word && sketchFor(word)) || scribble(random);
+  if (imposter) paths = paths.slice(0, Math.ceil(paths.length / 3));
+
+  const lap = room.turnOrder.slice(0, room.turnIndex).filter((id) => id === botId).length;
+  const share = Math.ceil(paths.length / room.settings.laps);
+  const jitter = imposter ? 0.03 : 0.008;
+  // the sketch's unit square sits in the middle of the 4:3 canvas
+  return paths
+    .slice(lap * share, (lap + 1) * share)
+    .map((path) => path.map(([x, y]): Point => [clamp(0.2 + x * 0.6 + (random() - 0.5) * jitter), clamp(0.1 + y * 0.8 + (random() - 0.5) * jitter)]));
+}
+
+function toBatches(random: Random, paths: Point[][], color: string): StrokeBatch[] {
+  return paths.flatMap((path) => {
+    const id = Math.floor(random() * 36 ** 8).toString(36);
+    const points = path.flatMap(([x, y]) => [Math.round(x * COORD_SCALE), Math.round(y * COORD_SCALE)]);
+    const batches: StrokeBatch[] = [];
+    // consecutive batches share their boundary point, like the client's flushes
+    for (let start = 0; start < points.length - 2; start += (MAX_BATCH_POINTS - 1) * 2) {
+      batches.push({ id, color, size: BRUSH_SIZE, tool: "brush", points: points.slice(start, start + MAX_BATCH_POINTS * 2) });
+    }
+    return batches;
+  });
+}
+
+// Basic voting rules: whoever tried to guess the word gave themselves away; otherwise follow
+// the current favourite half of the time, or suspect whoever drew the least.
+function chooseVote(random: Random, room: RoomState, botId: string) {
+  const imposter = wordFor(room, botId).isImposter;
+  const fellows = imposter && room.settings.impostersKnowEachOther ? room.imposterIds : [];
+  const options = room.players
+    .map((p) => p.id)
+    .filter((id) => id !== botId && !room.eliminated.includes(id) && !fellows.includes(id))
+    .filter((id) => !room.voteCandidates || room.voteCandidates.includes(id));
+  if (options.length === 0) return null;
+
+  const guessers = room.timeline.flatMap((e) => (e.type === "guess" && options.includes(e.playerId) ? [e.playerId] : []));
+  if (!imposter && guessers.length > 0) return guessers[0];
+
+  const tally: Record<string, number> = {};
+  Object.values(room.votes).forEach((id) => options.includes(id) && (tally[id] = (tally[id] ?? 0) + 1));
+  const favourite = Object.keys(tally).sort((a, b) => tally[b] - tally[a])[0];
+  if (favourite && random() < 0.5) return favourite;
+  if (imposter) return pick(random, options);
+
+  const drawn = room.drawings[room.round] ?? {};
+  const strokesOf = (id: string) => drawn[id]?.length ?? 0;
+  const fewest = Math.min(...options.map(strokesOf));
+  return pick(random, options.filter((id) => strokesOf(id) === fewest));
+}
+
+// An imposter bot only knows its fake word or the category, so it guesses another word of the
+// same category. Without either it has nothing to go on.
+function chooseGuess(random: Random, room: RoomState, botId: string) {
+  const { word, category } = wordFor(room, botId);
+  const pool = word ? relatedWords(room.packIds, word) : category ? categoryWords(room.packIds, category) : [];
+  const tried = room.timeline.flatMap((e) => (e.type === "guess" && e.playerId === botId ? [e.guess] : []));
+  const candidates = pool.filter((candidate) => !tried.includes(candidate));
+  return candidates.length > 0 ? pick(random, candidates) : null;
+}
+
+// Bots react to phase changes with delayed actions. Pending actions of a room are dropped
+// whenever a new phase starts or the room closes.
+export function createBots({ getRoom, dispatch, random: randomFor = () => Math.random }: BotDeps) {
+  const timers = new Map<string, Set<NodeJS.Timeout>>();
+
+  function later(room: RoomState, botId: string, ms: number, action: (room: RoomState) => void) {
+    const pending = timers.get(room.code) ?? new Set();
+    timers.set(room.code, pending);
+    const timer = setTimeout(() => {
+      pending.delete(timer);
+      const current = getRoom(room.code);
+      if (current && isSeatedBot(current, botId)) action(current);
+    }, ms);
+    pending.add(timer);
+  }
+
+  function stop(room: RoomState) {
+    timers.get(room.code)?.forEach((timer) => clearTimeout(timer));
+    timers.delete(room.code);
+  }
+
+  function maybeChat(room: RoomState, botId: string, ms: number, message: string) {
+    if (randomFor(room)() < CHAT_CHANCE) later(room, botId, ms, () => dispatch(room.code, { type: "chat", playerId: botId, message }));
+  }
+
+  function guess(room: RoomState, botId: string) {
+    const word = chooseGuess(randomFor(room), room, botId);
+    if (word) dispatch(room.code, { type: "guess", playerId: botId, guess: word });
+  }
+
+  return {
+    stop,
+
+    onTurnStarted(room: RoomState) {
+      stop(room);
+      const random = randomFor(room);
+      const drawerId = room.currentDrawerId;
+      const turnMs = room.settings.turnSeconds * 1000;
+      if (drawerId && isSeatedBot(room, drawerId)) {
+        const batches = toBatches(random, planPaths(random, room, drawerId), pick(random, COLORS));
+        const gap = Math.max(MIN_BATCH_GAP_MS, (turnMs * DRAW_SHARE) / Math.max(1, batches.length));
+        batches.forEach((batch, i) => later(room, drawerId, 800 + i * gap, () => dispatch(room.code, { type: "stroke", playerId: drawerId, batch })));
+      }
+      const watcher = botsOf(room).find((p) => p.id !== drawerId);
+      if (watcher) maybeChat(room, watcher.id, between(random, 0.3, 0.8) * turnMs, lineFor(random, room, "drawing"));
+    },
+
+    onDiscussionStarted(room: RoomState) {
+      stop(room);
+      const random = randomFor(room);
+      const discussionMs = room.settings.discussionSeconds * 1000;
+      for (const bot of botsOf(room)) {
+        const suspect = pick(random, room.players.filter((p) => p.id !== bot.id));
+        if (suspect) maybeChat(room, bot.id, between(random, 0.1, 0.7) * discussionMs, lineFor(random, room, "discussion", { name: suspect.name }));
+      }
+    },
+
+    onVotingStarted(room: RoomState) {
+      stop(room);
+      const random = randomFor(room);
+      const votingMs = room.settings.votingSeconds * 1000;
+      for (const bot of botsOf(room)) {
+        later(room, bot.id, between(random, 0.15, 0.5) * votingMs, (current) => {
+          const targetId = chooseVote(randomFor(current), current, bot.id);
+          if (!targetId) return;
+          dispatch(room.code, { type: "vote", playerId: bot.id, targetId });
+          const name = current.players.find((p) => p.id === targetId)?.name ?? "";
+          maybeChat(current, bot.id, between(random, 500, 2000), lineFor(random, current, wordFor(current, bot.id).isImposter ? "voting" : "accuse", { name }));
+        });
+        const guessesLeft = room.settings.guessAttempts - (room.guessesUsed[bot.id] ?? 0);
+        if (wordFor(room, bot.id).isImposter && guessesLeft > 0 && random() < GUESS_CHANCE) {
+          later(room, bot.id, between(random, 0.1, 0.6) * votingMs, (current) => guess(current, bot.id));
+        }
+      }
+    },
+
+    onLastChance(room: RoomState) {
+      stop(room);
+      const botId = room.lastChanceId;
+      if (!botId || !isSeatedBot(room, botId)) return;
+      later(room, botId, between(randomFor(room), 2000, 5000), (current) => guess(current, botId));
+    },
+
+    onResults(room: RoomState) {
+      stop(room);
+      const random = randomFor(room);
+      const bot = room.players.find((p) => p.bot);
+      if (bot) maybeChat(room, bot.id, between(random, 1000, 3000), lineFor(random, room, "results"));
+    }
+  };
+}
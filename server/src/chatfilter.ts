@@ -0,0 +1,35 @@
+import { isCloseTo, normalizeWord } from "./guess.js";
+
+export type ChatFilterMode = "off" | "mask" | "block";
+
+// Words shorter than this aren't searched for inside longer words, to keep false hits low.
+const MIN_EMBEDDED_LENGTH = 4;
+
+function leaks(token: string, words: string[]) {
+  const t = normalizeWord(token);
+  return words.some((w) => isCloseTo(t, w) || (w.length >= MIN_EMBEDDED_LENGTH && t.includes(w)));
+}
+
+// Checks a chat message against the secret words. Words that match, nearly match or contain a
+// secret word are masked, as are runs of single letters that spell one out ("K a t z e").
+export function filterChat(message: string, secretWords: (string | null)[]): { message: string; leaked: boolean } {
+  const words = secretWords.filter((w): w is string => !!w).map(normalizeWord).filter(Boolean);
+  if (words.length === 0) return { message, leaked: false };
+
+  const tokens = [...message.matchAll(/[\p{L}\p{N}]+/gu)].map((m) => ({ text: m[0], start: m.index, hit: false }));
+  tokens.forEach((t) => (t.hit = leaks(t.text, words)));
+
+  for (let i = 0; i < tokens.length; ) {
+    let j = i;
+    while (j < tokens.length && tokens[j].text.length <= 2) j++;
+    if (j - i > 1 && leaks(tokens.slice(i, j).map((t) => t.text).join(""), words)) tokens.slice(i, j).forEach((t) => (t.hit = true));
+    i = Math.max(j, i + 1);
+  }
+
+  if (!tokens.some((t) => t.hit)) return { message, leaked: false };
+  let masked = message;
+  for (const t of tokens) {
+    if (t.hit) masked = masked.slice(0, t.start) + "•".repeat(t.text.length) + masked.slice(t.start + t.text.length);
+  }
+  return { message: masked, leaked: true };
+}
@@ -0,0 +1,950 @@
+import { createHash } from "node:crypto";
+import { BOT_NAMES } from "./bots.js";
+import { filterChat } from "./chatfilter.js";
+import type { ErrorCode, ErrorParams } from "./errors.js";
+import { isCorrectGuess } from "./guess.js";
+import { MAX_NAME_LENGTH } from "./payloads.js";
+import { applySettings, DEFAULT_SETTINGS, imposterCountFor, type RoomSettings } from "./settings.js";
+import { isMatchOver, scoreRound, standings } from "./scoring.js";
+import type { RoundSummary, RoundTimeline } from "./storage.js";
+import { encodeStrokes, expandBatch, type StrokeBatch } from "./strokes.js";
+import type { ChatMessage, Player, RoomState, SystemMessageKey, TimelineInput, VoteRecord } from "./types.js";
+import { isWebhookUrl } from "./webhooks.js";
+import { defaultPackFor, getPack, packLanguages, pickWordPair } from "./words.js";
+
+// The game rules as a pure state machine: `reduce` takes a room, a command and the current
+// time and randomness, and returns the next room plus the events to send out. It never
+// touches sockets, timers or storage; index.ts does that with whatever comes back.
+
+export const SKIP_VOTE = "skip";
+export const MAX_STORED_ROUNDS = 10;
+// once everyone has voted there is still this long to change a vote
+export const VOTE_LOCK_MS = 5_000;
+// time a voted-out imposter gets for one final guess
+export const LAST_CHANCE_MS = 20_000;
+export const MAX_SPECTATORS = 50;
+export const MAX_STROKES_PER_TURN = 5_000;
+export const MAX_WEBHOOKS = 3;
+
+// names filled in when a client sends none, by room language
+const DEFAULT_NAMES: Record<string, { host: string; player: string; spectator: string; room: (host: string) => string }> = {
+  de: { host: "Host", player: "Spieler", spectator: "Zuschauer", room: (host) => `Lobby von ${host}` },
+  en: { host: "Host", player: "Player", spectator: "Spectator", room: (host) => `${host}'s room` }
+};
+const defaultNames = (language: string) => DEFAULT_NAMES[language] ?? DEFAULT_NAMES.en;
+
+export type EngineContext = { now: number; random: () => number };
+
+// Everything that can happen to a room. `playerId` is whoever does it; ids, tokens and
+// profile ids are made up by the caller so the engine stays deterministic.
+export type Command =
+  | { type: "join"; playerId: string; profileId: string | null; name?: string; token: string; spectate?: boolean; password?: string }
+  | { type: "reconnect"; playerId: string }
+  | { type: "disconnect"; playerId: string }
+  // the reconnect grace period ran out
+  | { type: "leave"; playerId: string }
+  | { type: "seat"; playerId: string }
+  | { type: "addBot"; playerId: string; botId: string }
+  | { type: "kick"; playerId: string; targetId: string; ban: boolean }
+  | { type: "transferHost"; playerId: string; targetId: string }
+  | { type: "lock"; playerId: string; locked: boolean }
+  | { type: "password"; playerId: string; password: string }
+  | { type: "visibility"; playerId: string; isPublic: boolean; name?: string }
+  | { type: "settings"; playerId: string; patch: Partial<RoomSettings> }
+  // an empty list turns webhooks off; `secret` is only used when there was none yet
+  | { type: "webhooks"; playerId: string; urls: string[]; secret: string }
+  | { type: "packs"; playerId: string; packIds: string[] }
+  | { type: "language"; playerId: string; language: string }
+  | { type: "start"; playerId: string }
+  | { type: "nextRound"; playerId: string }
+  | { type: "stroke"; playerId: string; batch: StrokeBatch }
+  | { type: "undo" | "redo" | "clear"; playerId: string }
+  // the drawer is done before their time is up
+  | { type: "endTurn"; playerId: string }
+  | { type: "pause"; playerId: string; paused: boolean }
+  | { type: "chat"; playerId: string; message: string }
+  | { type: "vote"; playerId: string; targetId: string }
+  | { type: "guess"; playerId: string; guess: string }
+  // the phase timer for `deadline` ran out; ignored unless that is still the room's deadline
+  | { type: "timeout"; deadline: number }
+  // a finished match gave its seed away, so the next one needs a fresh seed
+  | { type: "reseed"; seed: number };
+
+// "others" is everyone in the room except the player who sent the command.
+export type Audience = "room" | "others" | { player: string };
+
+export type EngineEvent =
+  | { type: "emit"; to: Audience; event: string; data?: unknown }
+  // the room view changed; sent once per command, after the other events
+  | { type: "update" }
+  | { type: "kicked"; playerId: string; banned: boolean }
+  | { type: "closed" }
+  | { type: "roundEnded"; summary: RoundSummary; timeline: RoundTimeline; imposterProfileIds: string[]; crewProfileIds: string[] }
+  | { type: "guessed"; profileId: string; correct: boolean };
+
+export type Outcome =
+  | { ok: true; state: RoomState; events: EngineEvent[]; reply?: Record<string, unknown> }
+  | { ok: false; error: ErrorCode; params?: ErrorParams };
+
+type Refusal = { error: ErrorCode; params?: ErrorParams };
+type Tx = { room: RoomState; ctx: EngineContext; events: EngineEvent[]; reply?: Record<string, unknown> };
+
+const refuse = (error: ErrorCode, params?: ErrorParams): Refusal => ({ error, ...(params && { params }) });
+
+export function hashPassword(code: string, password: string) {
+  return createHash("sha256").update(`${code}:${password}`).digest("hex");
+}
+
+export function createRoom(init: {
+  code: string;
+  hostId: string;
+  profileId: string | null;
+  name?: string;
+  token: string;
+  language: string;
+  seed: number | null;
+  now: number;
+}): RoomState {
+  const names = defaultNames(init.language);
+  const host: Player = {
+    id: init.hostId,
+    profileId: init.profileId,
+    name: cleanName(init.name) || names.host,
+    isHost: true,
+    connected: true
+  };
+  return {
+    code: init.code,
+    players: [host],
+    spectators: [],
+    phase: "lobby",
+    hostId: host.id,
+    settings: { ...DEFAULT_SETTINGS },
+    turnOrder: [],
+    turnIndex: 0,
+    round: 0,
+    imposterIds: [],
+    eliminated: [],
+    realWord: null,
+    fakeWord: null,
+    category: null,
+    packIds: [defaultPackFor(init.language)],
+    usedWords: [],
+    currentDrawerId: null,
+    drawing: [],
+    redoStack: [],
+    drawings: {},
+    chat: [],
+    votes: {},
+    voteCandidates: null,
+    voteHistory: [],
+    guessesUsed: {},
+    lastChanceId: null,
+    scores: [],
+    turnEndsAt: null,
+    pausedTimeLeft: null,
+    timeline: [],
+    lastActiveAt: init.now,
+    tokens: { [init.token]: host.id },
+    locked: false,
+    passwordHash: null,
+    bannedProfileIds: [],
+    webhooks: null,
+    isPublic: false,
+    name: names.room(host.name),
+    language: init.language,
+    seed: init.seed
+  };
+}
+
+export function reduce(state: RoomState, command: Command, ctx: EngineContext): Outcome {
+  // a timer that outlived its phase (e.g. the round already ended on a correct guess)
+  if (command.type === "timeout" && command.deadline !== state.turnEndsAt) return { ok: true, state, events: [] };
+
+  const tx: Tx = { room: draft(state), ctx, events: [] };
+  const refusal = (handlers[command.type] as (tx: Tx, command: Command) => Refusal | void)(tx, command);
+  if (refusal) return { ok: false, ...refusal };
+  return { ok: true, state: tx.room, events: tx.events, ...(tx.reply && { reply: tx.reply }) };
+}
+
+// A copy the handlers can mutate freely: every collection a command may change is copied
+// one level deep, so the state passed to `reduce` stays untouched.
+function draft(state: RoomState): RoomState {
+  return {
+    ...state,
+    players: state.players.map((p) => ({ ...p })),
+    spectators: state.spectators.map((p) => ({ ...p })),
+    settings: { ...state.settings },
+    turnOrder: [...state.turnOrder],
+    imposterIds: [...state.imposterIds],
+    eliminated: [...state.eliminated],
+    packIds: [...state.packIds],
+    usedWords: [...state.usedWords],
+    drawing: [...state.drawing],
+    redoStack: [...state.redoStack],
+    drawings: { ...state.drawings },
+    chat: [...state.chat],
+    votes: { ...state.votes },
+    voteHistory: [...state.voteHistory],
+    guessesUsed: { ...state.guessesUsed },
+    scores: [...state.scores],
+    timeline: [...state.timeline],
+    tokens: { ...state.tokens },
+    bannedProfileIds: [...state.bannedProfileIds]
+  };
+}
+
+function cleanName(name: string | undefined) {
+  return name?.trim().slice(0, MAX_NAME_LENGTH) ?? "";
+}
+
+// What a player is told about their word. Undercover imposters get their word like everyone
+// else and find out who they were only when they are voted out or the round ends.
+export function wordFor(room: RoomState, playerId: string) {
+  const isImposter = room.imposterIds.includes(playerId);
+  const knowsRole = isImposter && (room.settings.mode !== "undercover" || room.eliminated.includes(playerId));
+  return {
+    word: isImposter ? room.fakeWord : room.realWord,
+    category: isImposter && room.settings.mode === "category" ? room.category : null,
+    isImposter: knowsRole,
+    guessesLeft: knowsRole ? room.settings.guessAttempts - (room.guessesUsed[playerId] ?? 0) : 0,
+    fellowImposters: knowsRole && room.settings.impostersKnowEachOther ? room.imposterIds.filter((id) => id !== playerId) : []
+  };
+}
+
+export function findMember(room: RoomState, id: string) {
+  return room.players.find((p) => p.id === id) ?? room.spectators.find((p) => p.id === id) ?? null;
+}
+
+// Between rounds nobody holds a word, so seats can change hands.
+export function isBetweenRounds(room: RoomState) {
+  return room.phase === "lobby" || room.phase === "results";
+}
+
+function activePlayers(room: RoomState) {
+  return room.players.filter((p) => !room.eliminated.includes(p.id));
+}
+
+function emit(tx: Tx, to: Audience, event: string, data?: unknown) {
+  tx.events.push({ type: "emit", to, event, ...(data !== undefined && { data }) });
+}
+
+function update(tx: Tx) {
+  tx.room.lastActiveAt = tx.ctx.now;
+  if (!tx.events.some((e) => e.type === "update")) tx.events.push({ type: "update" });
+}
+
+function announce(tx: Tx, key: SystemMessageKey, params?: Record<string, string | number>) {
+  const msg: ChatMessage = { playerId: null, name: "", message: "", ts: tx.ctx.now, system: { key, ...(params && { params }) } };
+  tx.room.chat.push(msg);
+  emit(tx, "room", "chat:new", msg);
+}
+
+function logEvent(tx: Tx, event: TimelineInput) {
+  tx.room.timeline.push({ ...event, ts: tx.ctx.now } as RoomState["timeline"][number]);
+}
+
+function broadcastWords(tx: Tx) {
+  tx.room.players.forEach((p) => emit(tx, { player: p.id }, "word:assigned", wordFor(tx.room, p.id)));
+}
+
+function emitDrawing(tx: Tx) {
+  emit(tx, "room", "draw:sync", { drawing: encodeStrokes(tx.room.drawing) });
+}
+
+function saveTurnDrawing(room: RoomState) {
+  if (!room.currentDrawerId) return;
+  room.drawings[room.round] = { ...room.drawings[room.round], [room.currentDrawerId]: [...room.drawing] };
+  delete room.drawings[room.round - MAX_STORED_ROUNDS];
+}
+
+function revokeTokens(room: RoomState, playerId: string) {
+  for (const [token, id] of Object.entries(room.tokens)) {
+    if (id === playerId) delete room.tokens[token];
+  }
+}
+
+function setHost(room: RoomState, playerId: string) {
+  room.hostId = playerId;
+  room.players.forEach((p) => (p.isHost = p.id === playerId));
+}
+
+// Returns false when the room closed because no human is left.
+function removePlayer(tx: Tx, playerId: string) {
+  const { room } = tx;
+  const spectatorIndex = room.spectators.findIndex((p) => p.id === playerId);
+  if (spectatorIndex !== -1) {
+    room.spectators.splice(spectatorIndex, 1);
+    revokeTokens(room, playerId);
+    update(tx);
+    return true;
+  }
+
+  const index = room.players.findIndex((p) => p.id === playerId);
+  if (index === -1) return true;
+  room.players.splice(index, 1);
+  delete room.votes[playerId];
+  revokeTokens(room, playerId);
+
+  // bots don't keep a room alive
+  if (!room.players.some((p) => !p.bot)) {
+    emit(tx, "room", "room:closed");
+    tx.events.push({ type: "closed" });
+    return false;
+  }
+
+  if (room.hostId === playerId) setHost(room, (room.players.find((p) => p.connected && !p.bot) ?? room.players.find((p) => !p.bot)!).id);
+  update(tx);
+  if (room.phase === "voting") checkAllVoted(tx);
+  return true;
+}
+
+// A new phase always starts with a running timer, even if the host paused the previous one.
+function startTimer(tx: Tx, ms: number) {
+  tx.room.turnEndsAt = tx.ctx.now + ms;
+  tx.room.pausedTimeLeft = null;
+}
+
+function nextTurn(tx: Tx) {
+  saveTurnDrawing(tx.room);
+  tx.room.turnIndex += 1;
+  startTurn(tx);
+}
+
+function startTurn(tx: Tx) {
+  const { room } = tx;
+  if (room.players.length === 0) return;
+
+  // players who left during the round lose their remaining turns
+  while (room.turnIndex < room.turnOrder.length && !room.players.some((p) => p.id === room.turnOrder[room.turnIndex])) {
+    room.turnIndex += 1;
+  }
+
+  if (room.turnIndex >= room.turnOrder.length) {
+    room.currentDrawerId = null;
+    startDiscussion(tx);
+    return;
+  }
+
+  room.phase = "drawing";
+  room.currentDrawerId = room.turnOrder[room.turnIndex];
+  startTimer(tx, room.settings.turnSeconds * 1000);
+  // on later laps the drawer continues their own picture
+  room.drawing = [...(room.drawings[room.round]?.[room.currentDrawerId] ?? [])];
+  room.redoStack = [];
+  update(tx);
+  logEvent(tx, { type: "turn", drawerId: room.currentDrawerId });
+  announce(tx, "turnStarted", { name: room.players.find((p) => p.id === room.currentDrawerId)?.name ?? "?" });
+  emit(tx, "room", "turn:started", { drawerId: room.currentDrawerId, turnEndsAt: room.turnEndsAt });
+}
+
+function buildTurnOrder(tx: Tx) {
+  const { room } = tx;
+  const ids = room.players.map((p) => p.id);
+  if (room.settings.turnOrder === "random") {
+    for (let i = ids.length - 1; i > 0; i--) {
+      const j = Math.floor(tx.ctx.random() * (i + 1));
+      [ids[i], ids[j]] = [ids[j], ids[i]];
+    }
+  }
+  return Array.from({ length: room.settings.laps }, () => ids).flat();
+}
+
+function startGame(tx: Tx) {
+  const { room } = tx;
+  // the first round after a podium starts a new match
+  if (isMatchOver(room)) room.scores = [];
+  room.round += 1;
+  room.timeline = [];
+  logEvent(tx, { type: "round", round: room.round });
+  room.turnOrder = buildTurnOrder(tx);
+  room.turnIndex = 0;
+  room.votes = {};
+  room.voteCandidates = null;
+  room.voteHistory = [];
+  room.guessesUsed = {};
+  room.lastChanceId = null;
+  room.eliminated = [];
+
+  const candidates = room.players.map((p) => p.id);
+  room.imposterIds = [];
+  for (let n = imposterCountFor(room.settings, candidates.length); n > 0; n--) {
+    const [picked] = candidates.splice(Math.floor(tx.ctx.random() * candidates.length), 1);
+    room.imposterIds.push(picked);
+  }
+
+  const { realWord, fakeWord, category, exhausted } = pickWordPair(room.packIds, room.usedWords, room.language, tx.ctx.random);
+  room.usedWords = exhausted ? [realWord] : [...room.usedWords, realWord];
+  room.realWord = realWord;
+  room.fakeWord = room.settings.mode === "classic" || room.settings.mode === "undercover" ? fakeWord : null;
+  room.category = category;
+
+  broadcastWords(tx);
+  emit(tx, "room", "sfx", "turn");
+  startTurn(tx);
+}
+
+function endRound(tx: Tx, imposterWins: boolean, details: Record<string, unknown>) {
+  const { room } = tx;
+  const points = scoreRound(room);
+  room.scores.push({ round: room.round, points });
+  room.phase = "results";
+  room.lastChanceId = null;
+  room.currentDrawerId = null;
+  room.turnEndsAt = null;
+  room.pausedTimeLeft = null;
+  logEvent(tx, { type: "phase", phase: "results" });
+  update(tx);
+
+  const matchOver = isMatchOver(room);
+  const summary: RoundSummary = {
+    code: room.code,
+    round: room.round,
+    finishedAt: tx.ctx.now,
+    players: room.players.map((p) => ({ id: p.id, name: p.name })),
+    imposterIds: room.imposterIds,
+    realWord: room.realWord,
+    fakeWord: room.fakeWord,
+    mode: room.settings.mode,
+    category: room.category,
+    imposterWins,
+    eliminated: room.eliminated,
+    voteHistory: room.voteHistory,
+    points,
+    // later rounds of the match would be predictable from it
+    ...(matchOver && { seed: room.seed })
+  };
+  const profileIds = (players: Player[]) => players.flatMap((p) => p.profileId ?? []);
+  tx.events.push({
+    type: "roundEnded",
+    summary,
+    timeline: { code: room.code, round: room.round, players: summary.players, events: room.timeline },
+    imposterProfileIds: profileIds(room.players.filter((p) => room.imposterIds.includes(p.id))),
+    crewProfileIds: profileIds(room.players.filter((p) => !room.imposterIds.includes(p.id)))
+  });
+
+  const imposterNames = room.imposterIds.map((id) => room.players.find((p) => p.id === id)?.name ?? "?").join(", ");
+  announce(tx, imposterWins ? "impostersWin" : "crewWins", { imposters: imposterNames, word: room.realWord ?? "" });
+  const podium = matchOver ? standings(room).slice(0, 3) : null;
+  if (podium?.length) announce(tx, "matchWon", { name: podium[0].name, points: podium[0].points });
+  emit(tx, "room", "phase:results", {
+    imposterIds: room.imposterIds,
+    eliminated: room.eliminated,
+    realWord: room.realWord,
+    // what the imposters were told, so the results can explain the round
+    mode: room.settings.mode,
+    fakeWord: room.fakeWord,
+    category: room.category,
+    imposterWins,
+    voteHistory: room.voteHistory,
+    points,
+    matchOver,
+    podium,
+    ...details
+  });
+}
+
+// Everyone looks at the finished drawings and talks before the vote opens.
+function startDiscussion(tx: Tx) {
+  const { room } = tx;
+  if (room.settings.discussionSeconds === 0) return startVoting(tx, null);
+  room.phase = "discussion";
+  startTimer(tx, room.settings.discussionSeconds * 1000);
+  update(tx);
+  logEvent(tx, { type: "phase", phase: "discussion" });
+  announce(tx, "discussionStarted");
+  emit(tx, "room", "phase:discussion", { turnEndsAt: room.turnEndsAt });
+}
+
+function startVoting(tx: Tx, candidates: string[] | null) {
+  const { room } = tx;
+  room.phase = "voting";
+  room.votes = {};
+  room.voteCandidates = candidates;
+  startTimer(tx, room.settings.votingSeconds * 1000);
+  update(tx);
+  logEvent(tx, { type: "phase", phase: "voting" });
+  announce(tx, candidates ? "runoffStarted" : "votingStarted");
+  emit(tx, "room", "phase:voting", { candidates, turnEndsAt: room.turnEndsAt });
+}
+
+// When every active player has voted the deadline moves up to a short lock-in window.
+function checkAllVoted(tx: Tx) {
+  const { room } = tx;
+  if (Object.keys(room.votes).length < activePlayers(room).length) return;
+  if (room.pausedTimeLeft !== null) {
+    room.pausedTimeLeft = Math.min(room.pausedTimeLeft, VOTE_LOCK_MS);
+    return;
+  }
+  const lockAt = tx.ctx.now + VOTE_LOCK_MS;
+  if (room.turnEndsAt && room.turnEndsAt <= lockAt) return;
+
+  room.turnEndsAt = lockAt;
+  update(tx);
+  emit(tx, "room", "sfx", "voting");
+}
+
+function isValidVote(room: RoomState, voterId: string, targetId: string) {
+  if (targetId === SKIP_VOTE) return true;
+  if (targetId === voterId) return false;
+  if (room.voteCandidates && !room.voteCandidates.includes(targetId)) return false;
+  return activePlayers(room).some((p) => p.id === targetId);
+}
+
+// Each vote eliminates the most suspected player, a skip majority eliminates nobody.
+// The crew wins once every imposter is out; the imposters win when they are no
+// longer outnumbered or when the elimination votes (one per imposter) are used up.
+function computeVoting(tx: Tx) {
+  const { room } = tx;
+  const tally: Record<string, number> = {};
+  Object.values(room.votes).forEach((targetId) => {
+    tally[targetId] = (tally[targetId] ?? 0) + 1;
+  });
+
+  const top = Math.max(0, ...Object.values(tally));
+  const leaders = Object.keys(tally).filter((id) => tally[id] === top);
+  const tie = leaders.length > 1;
+  const record: VoteRecord = { votes: { ...room.votes }, tally, eliminated: null, tie, decided: true };
+  room.voteHistory.push(record);
+
+  if (tie && room.settings.tieRule === "imposterWins") {
+    return endRound(tx, true, { suspected: null, tally, tie: true });
+  }
+  if (tie && !room.voteCandidates) {
+    // a tied vote is repeated once among the tied players; skip stays allowed
+    const candidates = leaders.filter((id) => id !== SKIP_VOTE);
+    record.decided = false;
+    emit(tx, "room", "vote:tie", { candidates, tally });
+    return startVoting(tx, candidates);
+  }
+
+  const suspected = !tie && leaders[0] !== SKIP_VOTE ? leaders[0] : undefined;
+  if (suspected) {
+    room.eliminated.push(suspected);
+    record.eliminated = suspected;
+  }
+  logEvent(tx, { type: "eliminated", playerId: suspected ?? null });
+
+  if (suspected && room.imposterIds.includes(suspected)) return startLastChance(tx, suspected);
+  continueAfterVote(tx);
+}
+
+function startLastChance(tx: Tx, imposterId: string) {
+  const { room } = tx;
+  room.phase = "lastChance";
+  room.lastChanceId = imposterId;
+  startTimer(tx, LAST_CHANCE_MS);
+  update(tx);
+  logEvent(tx, { type: "phase", phase: "lastChance" });
+  emit(tx, "room", "phase:lastChance", { playerId: imposterId, turnEndsAt: room.turnEndsAt });
+  // an undercover imposter only now learns that their word was the odd one out
+  if (room.settings.mode === "undercover") emit(tx, { player: imposterId }, "word:assigned", wordFor(room, imposterId));
+}
+
+// Decides the round after an elimination vote (and a possible last-chance guess).
+function continueAfterVote(tx: Tx) {
+  const { room } = tx;
+  const last = room.voteHistory[room.voteHistory.length - 1];
+  const suspected = last?.eliminated ?? undefined;
+  const tally = last?.tally ?? {};
+
+  const remaining = activePlayers(room);
+  const impostersLeft = remaining.filter((p) => room.imposterIds.includes(p.id)).length;
+  const crewLeft = remaining.length - impostersLeft;
+  const votesUsed = room.voteHistory.filter((r) => r.decided).length;
+
+  if (impostersLeft === 0) return endRound(tx, false, { suspected, tally });
+  if (impostersLeft >= crewLeft || votesUsed >= room.imposterIds.length) {
+    return endRound(tx, true, { suspected, tally });
+  }
+
+  emit(tx, "room", "vote:eliminated", {
+    playerId: suspected ?? null,
+    wasImposter: !!suspected && room.imposterIds.includes(suspected),
+    tally
+  });
+  startVoting(tx, null);
+}
+
+function hostOnly(room: RoomState, playerId: string) {
+  return room.hostId !== playerId ? refuse("HOST_ONLY") : null;
+}
+
+function betweenRoundsOnly(room: RoomState) {
+  return !isBetweenRounds(room) ? refuse("ROUND_IN_PROGRESS") : null;
+}
+
+function drawerOnly(room: RoomState, playerId: string) {
+  return room.currentDrawerId !== playerId || room.phase !== "drawing" ? refuse("NOT_YOUR_TURN") : null;
+}
+
+type Handlers = { [K in Command["type"]]: (tx: Tx, command: Extract<Command, { type: K }>) => Refusal | null | void };
+
+const handlers: Handlers = {
+  join(tx, { playerId, profileId, name, token, spectate, password }) {
+    const { room } = tx;
+    if (room.locked) return refuse("ROOM_LOCKED");
+    if (profileId && room.bannedProfileIds.includes(profileId)) return refuse("BANNED");
+    if (room.passwordHash && (!password || hashPassword(room.code, password) !== room.passwordHash)) {
+      return refuse(password ? "WRONG_PASSWORD" : "PASSWORD_REQUIRED");
+    }
+
+    // anyone arriving mid-round watches until the round is over
+    const asSpectator = spectate === true || !isBetweenRounds(room);
+    if (asSpectator && room.spectators.length >= MAX_SPECTATORS) return refuse("TOO_MANY_SPECTATORS");
+    if (!asSpectator && room.players.length >= room.settings.maxPlayers) return refuse("ROOM_FULL");
+
+    const names = defaultNames(room.language);
+    const player: Player = {
+      id: playerId,
+      profileId,
+      name: cleanName(name) || (asSpectator ? names.spectator : names.player),
+      isHost: false,
+      connected: true
+    };
+    if (asSpectator) room.spectators.push(player);
+    else room.players.push(player);
+    room.tokens[token] = player.id;
+    update(tx);
+    announce(tx, asSpectator ? "spectatorJoined" : "playerJoined", { name: player.name });
+    tx.reply = { spectator: asSpectator };
+  },
+
+  reconnect(tx, { playerId }) {
+    const { room } = tx;
+    const player = findMember(room, playerId);
+    if (!player) return refuse("SESSION_EXPIRED");
+    player.connected = true;
+    update(tx);
+    const spectator = room.spectators.some((p) => p.id === playerId);
+    if (room.phase !== "lobby" && room.realWord && !spectator) emit(tx, { player: playerId }, "word:assigned", wordFor(room, playerId));
+    tx.reply = { spectator };
+  },
+
+  disconnect(tx, { playerId }) {
+    const player = findMember(tx.room, playerId);
+    if (!player) return refuse("NOT_IN_ROOM");
+    // keep the seat, role, word and votes for a while so a flaky connection can rejoin
+    player.connected = false;
+    update(tx);
+  },
+
+  leave(tx, { playerId }) {
+    const player = findMember(tx.room, playerId);
+    if (!player) return refuse("NOT_IN_ROOM");
+    if (removePlayer(tx, playerId)) announce(tx, "playerLeft", { name: player.name });
+  },
+
+  seat(tx, { playerId }) {
+    const { room } = tx;
+    const index = room.spectators.findIndex((p) => p.id === playerId);
+    if (index === -1) return refuse("ALREADY_PLAYING");
+    if (!room.settings.allowSpectatorSeats) return refuse("SEATS_DISABLED");
+    if (!isBetweenRounds(room)) return refuse("ROUND_IN_PROGRESS");
+    if (room.players.length >= room.settings.maxPlayers) return refuse("ROOM_FULL");
+
+    const [player] = room.spectators.splice(index, 1);
+    room.players.push(player);
+    update(tx);
+    announce(tx, "playerSeated", { name: player.name });
+  },
+
+  // Bots have no profile or session; they stay connected until they are kicked or the room closes.
+  addBot(tx, { playerId, botId }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId) ?? betweenRoundsOnly(room);
+    if (refusal) return refusal;
+    if (room.players.length >= room.settings.maxPlayers) return refuse("ROOM_FULL");
+
+    const taken = new Set([...room.players, ...room.spectators].map((p) => p.name));
+    const name = BOT_NAMES.map((n) => `Bot ${n}`).find((n) => !taken.has(n)) ?? `Bot ${room.players.length + 1}`;
+    room.players.push({ id: botId, profileId: null, name, isHost: false, connected: true, bot: true });
+    update(tx);
+    announce(tx, "playerJoined", { name });
+    tx.reply = { playerId: botId };
+  },
+
+  // Removes a player for good: their sockets leave the room, so only a fresh join
+  // (which a ban prevents) brings them back.
+  kick(tx, { playerId, targetId, ban }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    const target = findMember(room, targetId);
+    if (!target || targetId === playerId) return refuse("UNKNOWN_PLAYER");
+
+    if (ban) {
+      // bans go by profile, so a player without one can only be kicked
+      if (!target.profileId) return refuse("CANNOT_BAN");
+      if (!room.bannedProfileIds.includes(target.profileId)) room.bannedProfileIds.push(target.profileId);
+    }
+    tx.events.push({ type: "kicked", playerId: targetId, banned: ban });
+    if (removePlayer(tx, targetId)) announce(tx, ban ? "playerBanned" : "playerKicked", { name: target.name });
+  },
+
+  transferHost(tx, { playerId, targetId }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    const target = room.players.find((p) => p.id === targetId);
+    if (!target || target.bot || targetId === playerId) return refuse("UNKNOWN_PLAYER");
+
+    setHost(room, targetId);
+    update(tx);
+    announce(tx, "hostChanged", { name: target.name });
+  },
+
+  lock(tx, { playerId, locked }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    if (room.locked === locked) return;
+    room.locked = locked;
+    update(tx);
+    announce(tx, locked ? "roomLocked" : "roomUnlocked");
+  },
+
+  password(tx, { playerId, password }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    room.passwordHash = password ? hashPassword(room.code, password) : null;
+    update(tx);
+    announce(tx, password ? "passwordSet" : "passwordRemoved");
+  },
+
+  visibility(tx, { playerId, isPublic, name }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    const wasPublic = room.isPublic;
+    room.isPublic = isPublic;
+    if (name?.trim()) room.name = name.trim();
+    update(tx);
+    if (wasPublic !== isPublic) announce(tx, isPublic ? "roomPublic" : "roomPrivate", isPublic ? { name: room.name } : undefined);
+  },
+
+  webhooks(tx, { playerId, urls, secret }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    const unique = [...new Set(urls.map((url) => url.trim()).filter(Boolean))];
+    if (unique.length > MAX_WEBHOOKS) return refuse("TOO_MANY_WEBHOOKS", { max: MAX_WEBHOOKS });
+    const invalid = unique.find((url) => !isWebhookUrl(url));
+    if (invalid) return refuse("INVALID_WEBHOOK", { url: invalid });
+
+    room.webhooks = unique.length > 0 ? { urls: unique, secret: room.webhooks?.secret ?? secret } : null;
+    room.lastActiveAt = tx.ctx.now;
+    tx.reply = { urls: unique, secret: room.webhooks?.secret ?? null };
+  },
+
+  settings(tx, { playerId, patch }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId) ?? betweenRoundsOnly(room);
+    if (refusal) return refusal;
+
+    const result = applySettings(room.settings, patch);
+    if ("error" in result) return refuse(result.error.min !== undefined ? "SETTING_OUT_OF_RANGE" : "INVALID_SETTING", result.error);
+    if (result.settings.maxPlayers < room.players.length) return refuse("TOO_MANY_PLAYERS_FOR_LIMIT", { players: room.players.length });
+    room.settings = result.settings;
+    update(tx);
+  },
+
+  packs(tx, { playerId, packIds }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId) ?? betweenRoundsOnly(room);
+    if (refusal) return refusal;
+    const valid = packIds.filter((id) => getPack(id)?.language === room.language);
+    if (valid.length === 0) return refuse("NO_VALID_PACK");
+    room.packIds = [...new Set(valid)];
+    update(tx);
+  },
+
+  language(tx, { playerId, language }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId) ?? betweenRoundsOnly(room);
+    if (refusal) return refusal;
+    if (!packLanguages().includes(language)) return refuse("UNKNOWN_LANGUAGE", { language });
+    if (room.language === language) return;
+    room.language = language;
+    room.packIds = [defaultPackFor(language)];
+    room.usedWords = [];
+    update(tx);
+    announce(tx, "languageChanged", { language });
+  },
+
+  start(tx, { playerId }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId) ?? betweenRoundsOnly(room);
+    if (refusal) return refusal;
+    if (room.players.length < room.settings.minPlayers) return refuse("NOT_ENOUGH_PLAYERS", { min: room.settings.minPlayers });
+    startGame(tx);
+  },
+
+  nextRound(tx, { playerId }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    if (room.phase !== "results") return refuse("ROUND_IN_PROGRESS");
+    if (room.players.length < room.settings.minPlayers) return refuse("NOT_ENOUGH_PLAYERS", { min: room.settings.minPlayers });
+    startGame(tx);
+  },
+
+  stroke(tx, { playerId, batch }) {
+    const { room } = tx;
+    const refusal = drawerOnly(room, playerId);
+    if (refusal) return refusal;
+    const segments = expandBatch(batch);
+    if (room.drawing.length + segments.length > MAX_STROKES_PER_TURN) return refuse("DRAWING_FULL");
+    // a new gesture invalidates whatever was undone before it
+    if (room.drawing[room.drawing.length - 1]?.strokeId !== batch.id) room.redoStack = [];
+    room.drawing.push(...segments);
+    segments.forEach((stroke) => logEvent(tx, { type: "stroke", stroke }));
+    room.lastActiveAt = tx.ctx.now;
+    // the drawer's own client already shows the batch
+    emit(tx, "others", "draw:points", batch);
+  },
+
+  undo(tx, { playerId }) {
+    const { room } = tx;
+    const refusal = drawerOnly(room, playerId);
+    if (refusal) return refusal;
+    const last = room.drawing[room.drawing.length - 1];
+    if (last) {
+      room.redoStack.push(room.drawing.filter((s) => s.strokeId === last.strokeId));
+      room.drawing = room.drawing.filter((s) => s.strokeId !== last.strokeId);
+    }
+    logEvent(tx, { type: "undo" });
+    emitDrawing(tx);
+  },
+
+  redo(tx, { playerId }) {
+    const { room } = tx;
+    const refusal = drawerOnly(room, playerId);
+    if (refusal) return refusal;
+    const restored = room.redoStack.pop();
+    if (restored) room.drawing.push(...restored);
+    logEvent(tx, { type: "redo" });
+    emitDrawing(tx);
+  },
+
+  clear(tx, { playerId }) {
+    const { room } = tx;
+    const refusal = drawerOnly(room, playerId);
+    if (refusal) return refusal;
+    room.drawing = [];
+    room.redoStack = [];
+    logEvent(tx, { type: "clear" });
+    emitDrawing(tx);
+  },
+
+  endTurn(tx, { playerId }) {
+    const refusal = drawerOnly(tx.room, playerId);
+    if (refusal) return refusal;
+    nextTurn(tx);
+  },
+
+  // Freezes the phase timer; everything else keeps working.
+  pause(tx, { playerId, paused }) {
+    const { room } = tx;
+    const refusal = hostOnly(room, playerId);
+    if (refusal) return refusal;
+    if (paused && room.turnEndsAt !== null) {
+      room.pausedTimeLeft = Math.max(0, room.turnEndsAt - tx.ctx.now);
+      room.turnEndsAt = null;
+      update(tx);
+      announce(tx, "timerPaused");
+    } else if (!paused && room.pausedTimeLeft !== null) {
+      startTimer(tx, room.pausedTimeLeft);
+      update(tx);
+      announce(tx, "timerResumed");
+    } else if (room.turnEndsAt === null && room.pausedTimeLeft === null) {
+      return refuse("NO_TIMER");
+    }
+  },
+
+  chat(tx, { playerId, message }) {
+    const { room } = tx;
+    const player = findMember(room, playerId);
+    if (!player) return refuse("NOT_IN_ROOM");
+    if (room.settings.quietWhileDrawing && room.phase === "drawing") return refuse("CHAT_MUTED");
+
+    let text = message.trim();
+    if (room.settings.chatFilter !== "off" && !isBetweenRounds(room)) {
+      const filtered = filterChat(text, [room.realWord, room.fakeWord]);
+      if (filtered.leaked && room.settings.chatFilter === "block") return refuse("CHAT_LEAKS_WORD");
+      text = filtered.message;
+    }
+    const msg: ChatMessage = { playerId, name: player.name, message: text, ts: tx.ctx.now };
+    room.chat.push(msg);
+    room.lastActiveAt = tx.ctx.now;
+    if (room.phase !== "lobby") logEvent(tx, { type: "chat", playerId, name: msg.name, message: msg.message });
+    emit(tx, "room", "chat:new", msg);
+  },
+
+  vote(tx, { playerId, targetId }) {
+    const { room } = tx;
+    const isPlayer = room.players.some((p) => p.id === playerId);
+    if (room.phase !== "voting" || !isPlayer || room.eliminated.includes(playerId)) return refuse("CANNOT_VOTE");
+    if (!isValidVote(room, playerId, targetId)) return refuse("INVALID_VOTE");
+
+    const firstVote = !(playerId in room.votes);
+    room.votes[playerId] = targetId;
+    logEvent(tx, { type: "vote", voterId: playerId, targetId });
+    update(tx);
+    if (firstVote) announce(tx, "voteCast", { name: room.players.find((p) => p.id === playerId)?.name ?? "?" });
+    checkAllVoted(tx);
+  },
+
+  guess(tx, { playerId, guess }) {
+    const { room } = tx;
+    if (!room.realWord) return refuse("CANNOT_GUESS");
+
+    const lastChance = room.phase === "lastChance" && room.lastChanceId === playerId;
+    let attemptsLeft = 0;
+    if (!lastChance) {
+      if (!wordFor(room, playerId).isImposter || room.eliminated.includes(playerId)) return refuse("CANNOT_GUESS");
+      if (room.phase !== "drawing" && room.phase !== "discussion" && room.phase !== "voting") return refuse("CANNOT_GUESS");
+      const used = room.guessesUsed[playerId] ?? 0;
+      if (used >= room.settings.guessAttempts) return refuse("NO_GUESSES_LEFT");
+      room.guessesUsed[playerId] = used + 1;
+      attemptsLeft = room.settings.guessAttempts - used - 1;
+    }
+
+    const guessedWord = guess.trim();
+    // without a word of their own (category and blind mode) anything close to the real word counts
+    const correct = isCorrectGuess(guessedWord, room.realWord, room.fakeWord);
+    const profileId = room.players.find((p) => p.id === playerId)?.profileId;
+    if (profileId) tx.events.push({ type: "guessed", profileId, correct });
+    logEvent(tx, { type: "guess", playerId, guess: guessedWord, correct });
+    emit(tx, "room", "imposter:guessed", { playerId, guess: guessedWord, correct, lastChance, attemptsLeft });
+
+    if (correct) {
+      if (room.phase === "drawing") saveTurnDrawing(room);
+      endRound(tx, true, { suspected: null, tally: room.votes, guessedBy: playerId, guessedWord });
+    } else if (lastChance) {
+      room.lastChanceId = null;
+      continueAfterVote(tx);
+    }
+    tx.reply = { correct, attemptsLeft };
+  },
+
+  // Every timed phase has a single deadline; what happens when it passes depends on the phase.
+  timeout(tx) {
+    const { room } = tx;
+    if (room.phase === "drawing") {
+      nextTurn(tx);
+    } else if (room.phase === "discussion") {
+      startVoting(tx, null);
+    } else if (room.phase === "voting") {
+      computeVoting(tx);
+    } else if (room.phase === "lastChance") {
+      room.lastChanceId = null;
+      continueAfterVote(tx);
+    }
+  },
+
+  reseed(tx, { seed }) {
+    if (tx.room.seed !== null) tx.room.seed = seed;
+  }
+};
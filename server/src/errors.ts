@@ -0,0 +1,61 @@
+import type { Issue } from "./validation.js";
+
+// Error codes are what clients see; they translate them into their own language.
+export type ErrorCode =
+  | "INVALID_PAYLOAD"
+  | "RATE_LIMITED"
+  | "INTERNAL"
+  | "NOT_IN_ROOM"
+  | "SESSION_EXPIRED"
+  | "TOO_MANY_ROOMS"
+  | "ROOM_NOT_FOUND"
+  | "ROOM_FULL"
+  | "ROOM_LOCKED"
+  | "PASSWORD_REQUIRED"
+  | "WRONG_PASSWORD"
+  | "BANNED"
+  | "TOO_MANY_SPECTATORS"
+  | "ALREADY_PLAYING"
+  | "SEATS_DISABLED"
+  | "HOST_ONLY"
+  | "ROUND_IN_PROGRESS"
+  | "NOT_ENOUGH_PLAYERS"
+  | "INVALID_SETTING"
+  | "SETTING_OUT_OF_RANGE"
+  | "TOO_MANY_PLAYERS_FOR_LIMIT"
+  | "NO_VALID_PACK"
+  | "UNKNOWN_LANGUAGE"
+  | "UNKNOWN_PLAYER"
+  | "CANNOT_BAN"
+  | "NOT_YOUR_TURN"
+  | "NO_TIMER"
+  | "DRAWING_FULL"
+  | "CHAT_MUTED"
+  | "CHAT_LEAKS_WORD"
+  | "CANNOT_VOTE"
+  | "INVALID_VOTE"
+  | "CANNOT_GUESS"
+  | "NO_GUESSES_LEFT"
+  | "TOO_MANY_WEBHOOKS"
+  | "INVALID_WEBHOOK"
+  // HTTP only
+  | "ROUND_NOT_FOUND"
+  | "ROOM_PRIVATE"
+  | "ROUND_RUNNING"
+  | "PLAYER_NOT_FOUND"
+  | "PACK_NOT_FOUND"
+  | "ADMIN_ONLY"
+  | "PACK_PROTECTED"
+  | "PACK_EXISTS"
+  | "INVALID_PACK";
+
+export type ErrorParams = Record<string, string | number>;
+
+// Sent back through the socket.io ack, or as a `server:error` event when the client
+// emitted without an ack callback. `details` is English for developers; `issues` says what was
+// wrong with an invalid payload or pack in a form clients can translate.
+export type ErrorAck = { error: ErrorCode; params?: ErrorParams; details?: string; issues?: Issue[] };
+
+export function errorAck(code: ErrorCode, params?: ErrorParams, extra: Pick<ErrorAck, "details" | "issues"> = {}): ErrorAck {
+  return { error: code, ...(params && { params }), ...extra };
+}
@@ -0,0 +1,54 @@
+// Common German and English plural endings, tried when a guess is a bit longer than the word.
+const PLURAL_SUFFIXES = ["en", "er", "es", "e", "n", "s"];
+
+export function normalizeWord(input: string) {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+// Edit distance where swapping two neighbouring letters counts as one typo.
+function editDistance(a: string, b: string) {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Typos allowed for a word of this length: none for short words, more for long ones.
+function tolerance(length: number) {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+function distance(guess: string, word: string) {
+  const variants = [guess, ...PLURAL_SUFFIXES.filter((s) => guess.endsWith(s) && !word.endsWith(s)).map((s) => guess.slice(0, -s.length))];
+  return Math.min(...variants.map((v) => editDistance(v, word)));
+}
+
+// Both arguments already normalized. True for typos and plural forms within the length-based tolerance.
+export function isCloseTo(candidate: string, word: string) {
+  return !!candidate && !!word && distance(candidate, word) <= tolerance(word.length);
+}
+
+// A guess counts when it is close to the real word and closer to it than to the fake word,
+// so an imposter cannot win by typing their own word.
+export function isCorrectGuess(guess: string, realWord: string, fakeWord: string | null) {
+  const g = normalizeWord(guess);
+  const real = normalizeWord(realWord);
+  if (!g || !real) return false;
+
+  const toReal = distance(g, real);
+  if (toReal > tolerance(real.length)) return false;
+  return !fakeWord || toReal < distance(g, normalizeWord(fakeWord));
+}
@@ -1,332 +1,665 @@
-import express from "express";
+import express, { type Request, type Response } from "express";
 import cors from "cors";
+import { createHash, randomInt, timingSafeEqual } from "node:crypto";
 import { createServer } from "node:http";
-import { Server } from "socket.io";
-import { customAlphabet } from "nanoid";
-import { pickWordPair } from "./words.js";
+import { Server, type Socket } from "socket.io";
+import { customAlphabet, nanoid } from "nanoid";
+import { createBots } from "./bots.js";
+import { createRoom, findMember, isBetweenRounds, reduce, type Command, type EngineEvent, type Outcome } from "./engine.js";
+import { errorAck, type ErrorAck, type ErrorCode, type ErrorParams } from "./errors.js";
+import { payloads } from "./payloads.js";
+import { createLimiter, type Limiter } from "./ratelimit.js";
+import { deriveSeed, isValidSeed, seededRandom } from "./rng.js";
+import { encodeStrokes } from "./strokes.js";
+import { DEFAULT_SETTINGS, type RoomSettings } from "./settings.js";
+import { standings } from "./scoring.js";
+import { getProfile, loadProfiles, profileIdFor, recordGuess, recordRound, topProfiles, touchProfile } from "./profiles.js";
+import { createFileStorage, DATA_DIR, type StoredPlayer } from "./storage.js";
+import type { Player, RoomState } from "./types.js";
+import { describeIssue, issue, type Schema } from "./validation.js";
+import { createWebhooks, type WebhookEvent } from "./webhooks.js";
+import { DEFAULT_LANGUAGE, deletePack, getPack, isBuiltInPack, listPacks, loadPacks, packLanguages, savePack, validatePack } from "./words.js";
 
 const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const makeRoomCode = customAlphabet(alphabet, 6);
-
-const TURN_MS = 20_000;
-
-type Phase = "lobby" | "drawing" | "voting" | "results";
-
-type DrawEvent = {
-  x0: number;
-  y0: number;
-  x1: number;
-  y1: number;
-  color: string;
-  size: number;
-  tool: "brush" | "eraser";
+const ROOM_CODE = new RegExp(`^[${alphabet}]{6}$`);
+
+const RECONNECT_GRACE_MS = 60_000;
+// rooms without any activity for this long are closed and removed from storage
+const ROOM_TTL_MS = Number(process.env.ROOM_TTL_MS || 6 * 60 * 60 * 1000);
+const SAVE_DEBOUNCE_MS = 500;
+const MAX_ROOMS = Number(process.env.MAX_ROOMS || 500);
+// seeds every new room that doesn't ask for its own seed, e.g. for reproducible test sessions;
+// each room gets its own seed derived from it in the order the rooms are created
+const GAME_SEED = process.env.GAME_SEED && isValidSeed(Number(process.env.GAME_SEED)) ? Number(process.env.GAME_SEED) : null;
+// uploading and deleting word packs needs this as `Authorization: Bearer <token>`; unset, both are off
+const PACKS_ADMIN_TOKEN = process.env.PACKS_ADMIN_TOKEN || null;
+// socket.io channel of everyone looking at the lobby browser
+const LOBBY_FEED = "lobbies";
+const LOBBY_FEED_THROTTLE_MS = 1_000;
+const MAX_LISTED_ROOMS = 100;
+
+// per socket: bursts up to the first number, refilled at the second per second
+const limits = {
+  stroke: createLimiter(60, 30),
+  chat: createLimiter(5, 0.5),
+  roomCreate: createLimiter(3, 1 / 60),
+  general: createLimiter(20, 5)
 };
 
-type Player = {
-  id: string;
-  name: string;
-  isHost: boolean;
-  connected: boolean;
-  wins: number;
-  losses: number;
-};
-
-type RoomState = {
-  code: string;
-  players: Player[];
-  phase: Phase;
-  hostId: string;
-  turnIndex: number;
-  round: number;
-  imposterId: string | null;
-  realWord: string | null;
-  fakeWord: string | null;
-  currentDrawerId: string | null;
-  drawing: DrawEvent[];
-  chat: { playerId: string; name: string; message: string; ts: number }[];
-  votes: Record<string, string>;
-  leaderboard: Record<string, { wins: number; losses: number }>;
-  turnEndsAt: number | null;
-  timerRef?: NodeJS.Timeout;
-};
+type Session = { code: string; playerId: string };
 
 const rooms = new Map<string, RoomState>();
-const socketToRoom = new Map<string, string>();
+const socketToRoom = new Map<string, Session>();
+const pendingSaves = new Map<string, NodeJS.Timeout>();
+// live handles kept next to the room state: the phase timer, reconnect grace timers, room random
+const phaseTimers = new Map<string, NodeJS.Timeout>();
+const dropTimers = new Map<string, Map<string, NodeJS.Timeout>>();
+const randoms = new Map<string, () => number>();
+let gameSeededRooms = 0;
+let pendingLobbyFeed: NodeJS.Timeout | null = null;
+
+loadPacks();
+const storage = createFileStorage(DATA_DIR);
+loadProfiles(storage);
 
 const app = express();
 app.use(cors());
+app.use(express.json({ limit: "1mb" }));
 app.get("/health", (_req, res) => res.json({ ok: true }));
 
+// The room routes show what a spectator sees, and only while the room is open. Rooms behind a
+// password or lock only show it to their members, who send their session token as `X-Room-Token`
+// (or `?token=`); being kicked or banned ends that.
+function readableRoom(req: Request, res: Response) {
+  const code = String(req.params.code).toUpperCase();
+  const room = ROOM_CODE.test(code) ? rooms.get(code) : undefined;
+  if (!room) {
+    res.status(404).json(errorAck("ROOM_NOT_FOUND"));
+    return null;
+  }
+  if (room.passwordHash !== null || room.locked) {
+    const token = req.get("X-Room-Token") ?? (typeof req.query.token === "string" ? req.query.token : "");
+    const memberId = Object.hasOwn(room.tokens, token) ? room.tokens[token] : null;
+    if (!memberId || !findMember(room, memberId)) {
+      res.status(403).json(errorAck("ROOM_PRIVATE"));
+      return null;
+    }
+  }
+  return room;
+}
+
+// Only finished rounds are served, so the timeline can't leak votes or guesses mid-round.
+app.get("/rooms/:code/rounds/:round/timeline", (req, res) => {
+  const room = readableRoom(req, res);
+  if (!room) return;
+  const round = Number(req.params.round);
+  if (room.round === round && !isBetweenRounds(room)) return res.status(409).json(errorAck("ROUND_RUNNING"));
+
+  storage
+    .loadTimeline(room.code, round)
+    .then((timeline) => (timeline ? res.json(timeline) : res.status(404).json(errorAck("ROUND_NOT_FOUND"))))
+    .catch(() => res.status(500).json(errorAck("INTERNAL")));
+});
+
+app.get("/rooms", (req, res) => {
+  const language = typeof req.query.language === "string" ? req.query.language : null;
+  const query = typeof req.query.q === "string" ? req.query.q.toLowerCase() : "";
+  const open = req.query.open === "true";
+  res.json(
+    publicRooms().filter(
+      (r) => (!language || r.language === language) && (!query || r.name.toLowerCase().includes(query)) && (!open || !r.inProgress)
+    )
+  );
+});
+
+app.get("/leaderboard", (req, res) => {
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+  res.json(topProfiles(limit));
+});
+app.get("/players/:id", (req, res) => {
+  const profile = getProfile(req.params.id);
+  if (!profile) return res.status(404).json(errorAck("PLAYER_NOT_FOUND"));
+  res.json(profile);
+});
+
+app.get("/packs", (_req, res) => res.json(listPacks()));
+app.get("/packs/:id", (req, res) => {
+  const pack = getPack(req.params.id);
+  if (!pack) return res.status(404).json(errorAck("PACK_NOT_FOUND"));
+  res.json(pack);
+});
+app.post("/packs/validate", (req, res) => {
+  const { issues } = validatePack(req.body);
+  res.json({ valid: issues.length === 0, issues });
+});
+// compared as hashes, so neither the length nor the content leaks through timing
+function isPacksAdmin(req: Request) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const given = req.get("Authorization")?.replace(/^Bearer /, "");
+  return PACKS_ADMIN_TOKEN !== null && given !== undefined && timingSafeEqual(digest(given), digest(PACKS_ADMIN_TOKEN));
+}
+
+app.post("/packs", (req, res) => {
+  if (!isPacksAdmin(req)) return res.status(401).json(errorAck("ADMIN_ONLY"));
+  const { pack, issues } = validatePack(req.body);
+  if (!pack) return res.status(400).json(errorAck("INVALID_PACK", undefined, { details: issues.map(describeIssue).join("; "), issues }));
+  if (isBuiltInPack(pack.id)) return res.status(409).json(errorAck("PACK_PROTECTED"));
+  if (!savePack(pack)) return res.status(409).json(errorAck("PACK_EXISTS"));
+  res.status(201).json({ id: pack.id });
+});
+app.delete("/packs/:id", (req, res) => {
+  if (!isPacksAdmin(req)) return res.status(401).json(errorAck("ADMIN_ONLY"));
+  if (isBuiltInPack(req.params.id)) return res.status(409).json(errorAck("PACK_PROTECTED"));
+  if (!deletePack(req.params.id)) return res.status(404).json(errorAck("PACK_NOT_FOUND"));
+  res.status(204).end();
+});
+// Read-only room state for overlays and bots: exactly what a spectator sees.
+app.get("/rooms/:code", (req, res) => {
+  const room = readableRoom(req, res);
+  if (room) res.json(roomView(room));
+});
+
+// Finished rounds of the room, oldest first, with the standings of the running match.
+app.get("/rooms/:code/results", (req, res) => {
+  const room = readableRoom(req, res);
+  if (!room) return;
+  storage
+    .listRounds(room.code)
+    .then((rounds) => res.json({ code: room.code, matchRound: room.scores.length, standings: standings(room), rounds }))
+    .catch(() => res.status(500).json(errorAck("INTERNAL")));
+});
+
+app.get("/rooms/:code/rounds/:round/drawings", (req, res) => {
+  const room = readableRoom(req, res);
+  if (!room) return;
+  const round = Number(req.params.round);
+  if (!room.drawings[round]) return res.status(404).json(errorAck("ROUND_NOT_FOUND"));
+  res.json({ code: room.code, round, drawings: galleryFor(room, round) });
+});
+
 const httpServer = createServer(app);
 const io = new Server(httpServer, { cors: { origin: "*" } });
 
+const webhooks = createWebhooks();
+
+const bots = createBots({ getRoom: (code) => rooms.get(code), dispatch: (code, command) => dispatch(code, command), random: randomFor });
+
+function galleryFor(room: RoomState, round: number) {
+  const byDrawer = room.drawings[round] ?? {};
+  return Object.entries(byDrawer).map(([drawerId, strokes]) => ({
+    drawerId,
+    name: room.players.find((p) => p.id === drawerId)?.name ?? "?",
+    strokes
+  }));
+}
+
 function roomView(room: RoomState) {
   return {
     code: room.code,
     phase: room.phase,
+    language: room.language,
+    locked: room.locked,
+    hasPassword: room.passwordHash !== null,
+    isPublic: room.isPublic,
+    name: room.name,
+    // never the seed itself: the engine is deterministic, so it would give away imposters and words
+    seeded: room.seed !== null,
     players: room.players,
+    spectators: room.spectators,
+    settings: room.settings,
+    turnOrder: room.turnOrder,
     turnIndex: room.turnIndex,
     round: room.round,
-    imposterId: room.phase === "results" ? room.imposterId : null,
+    packIds: room.packIds,
+    imposterIds: room.phase === "results" ? room.imposterIds : [],
+    eliminated: room.eliminated.map((id) => ({ id, wasImposter: room.imposterIds.includes(id) })),
     currentDrawerId: room.currentDrawerId,
-    drawing: room.drawing,
+    drawing: encodeStrokes(room.drawing),
+    votedIds: Object.keys(room.votes),
+    voteCandidates: room.voteCandidates,
+    lastChanceId: room.lastChanceId,
+    gallery:
+      room.phase === "discussion" || room.phase === "voting" || room.phase === "lastChance" || room.phase === "results"
+        ? galleryFor(room, room.round).map((entry) => ({ ...entry, strokes: encodeStrokes(entry.strokes) }))
+        : [],
     chat: room.chat.slice(-60),
     turnEndsAt: room.turnEndsAt,
-    leaderboard: room.players.map((p) => ({
-      id: p.id,
-      name: p.name,
-      wins: room.leaderboard[p.id]?.wins ?? p.wins,
-      losses: room.leaderboard[p.id]?.losses ?? p.losses
+    pausedTimeLeft: room.pausedTimeLeft,
+    matchRound: room.scores.length,
+    leaderboard: standings(room).map(({ id, name, points }) => ({
+      id,
+      name,
+      points,
+      rounds: room.scores.map((s) => s.points[id]?.total ?? null)
     }))
   };
 }
 
-function emitRoom(room: RoomState) {
-  io.to(room.code).emit("room:update", roomView(room));
+// Open public rooms as the lobby browser shows them; locked rooms are hidden.
+function publicRooms() {
+  return [...rooms.values()]
+    .filter((room) => room.isPublic && !room.locked)
+    .map((room) => {
+      const packs = room.packIds.map((id) => getPack(id)).filter((pack) => pack !== null);
+      return {
+        code: room.code,
+        name: room.name,
+        players: room.players.length,
+        maxPlayers: room.settings.maxPlayers,
+        spectators: room.spectators.length,
+        phase: room.phase,
+        inProgress: !isBetweenRounds(room),
+        round: room.round,
+        language: room.language,
+        packs: packs.map((pack) => pack.name),
+        hasPassword: room.passwordHash !== null
+      };
+    })
+    .sort((a, b) => b.players - a.players)
+    .slice(0, MAX_LISTED_ROOMS);
 }
 
-function broadcastWords(room: RoomState) {
-  room.players.forEach((p) => {
-    io.to(p.id).emit("word:assigned", {
-      word: p.id === room.imposterId ? room.fakeWord : room.realWord,
-      isImposter: p.id === room.imposterId
-    });
-  });
+function scheduleLobbyFeed() {
+  if (pendingLobbyFeed) return;
+  pendingLobbyFeed = setTimeout(() => {
+    pendingLobbyFeed = null;
+    if (io.sockets.adapter.rooms.get(LOBBY_FEED)?.size) io.to(LOBBY_FEED).emit("lobbies:list", publicRooms());
+  }, LOBBY_FEED_THROTTLE_MS);
 }
 
-function clearTimer(room: RoomState) {
-  if (room.timerRef) clearTimeout(room.timerRef);
+// Saves are debounced per room, so a burst of updates results in a single write of the latest state.
+function persistRoom(code: string) {
+  if (pendingSaves.has(code)) return;
+  pendingSaves.set(
+    code,
+    setTimeout(() => {
+      pendingSaves.delete(code);
+      const room = rooms.get(code);
+      if (!room) return;
+      storage.saveRoom(room).catch((err) => console.error(`Failed to save room ${code}:`, err));
+    }, SAVE_DEBOUNCE_MS)
+  );
 }
 
-function startTurn(room: RoomState) {
-  if (room.players.length === 0) return;
+function closeRoom(room: RoomState) {
+  clearPhaseTimer(room.code);
+  bots.stop(room);
+  dropTimers.get(room.code)?.forEach((timer) => clearTimeout(timer));
+  dropTimers.delete(room.code);
+  randoms.delete(room.code);
+  webhooks.forget(room.code);
+  rooms.delete(room.code);
+  if (room.isPublic) scheduleLobbyFeed();
+  storage.deleteRoom(room.code).catch((err) => console.error(`Failed to delete room ${room.code}:`, err));
+}
 
-  if (room.turnIndex >= room.players.length) {
-    room.phase = "voting";
-    room.currentDrawerId = null;
-    room.turnEndsAt = null;
-    emitRoom(room);
-    io.to(room.code).emit("phase:voting");
-    return;
+// Seeded rooms draw from their own generator, which restarts from the seed after a server restart.
+function randomFor(room: RoomState) {
+  let random = randoms.get(room.code);
+  if (!random) {
+    random = typeof room.seed === "number" ? seededRandom(room.seed) : Math.random;
+    randoms.set(room.code, random);
   }
+  return random;
+}
 
-  room.phase = "drawing";
-  room.currentDrawerId = room.players[room.turnIndex]?.id ?? null;
-  room.turnEndsAt = Date.now() + TURN_MS;
-  room.drawing = [];
-  emitRoom(room);
-  io.to(room.code).emit("turn:started", {
-    drawerId: room.currentDrawerId,
-    turnEndsAt: room.turnEndsAt
-  });
+// Runs a command through the engine and, if it was accepted, stores the new state and carries
+// out the resulting events. `beforeEvents` runs in between, e.g. to attach a joining socket.
+function dispatch(code: string, command: Command, origin?: Socket, beforeEvents?: (room: RoomState) => void): Outcome {
+  const room = rooms.get(code);
+  if (!room) return { ok: false, error: "ROOM_NOT_FOUND" };
+  const outcome = reduce(room, command, { now: Date.now(), random: randomFor(room) });
+  if (!outcome.ok || outcome.state === room) return outcome;
+
+  rooms.set(code, outcome.state);
+  beforeEvents?.(outcome.state);
+  if (outcome.state.turnEndsAt !== room.turnEndsAt) schedulePhaseTimer(outcome.state);
+  outcome.events.forEach((event) => handleEvent(outcome.state, event, origin));
+  if (!rooms.has(code)) return outcome;
+
+  // Stroke batches arrive many times a second and the room is written whole, so drawings reach the
+  // disk with the next other command at the latest, which the end of the turn always is.
+  if (command.type !== "stroke") persistRoom(code);
+  if (outcome.events.some((e) => e.type === "update")) {
+    io.to(code).emit("room:update", roomView(outcome.state));
+    if (outcome.state.isPublic || room.isPublic) scheduleLobbyFeed();
+  }
+  return outcome;
+}
+
+function handleEvent(room: RoomState, event: EngineEvent, origin?: Socket) {
+  switch (event.type) {
+    case "emit": {
+      const { to } = event;
+      const target = to === "room" ? io.to(room.code) : to === "others" ? (origin ? origin.to(room.code) : io.to(room.code)) : io.to(to.player);
+      target.emit(event.event, event.data);
+      if (event.event === "turn:started") bots.onTurnStarted(room);
+      else if (event.event === "phase:discussion") bots.onDiscussionStarted(room);
+      else if (event.event === "phase:voting") bots.onVotingStarted(room);
+      else if (event.event === "phase:lastChance") bots.onLastChance(room);
+      else if (event.event === "phase:results") bots.onResults(room);
+
+      if (event.event === "turn:started" && room.turnIndex === 0) {
+        notify(room, "round.started", { round: room.round, mode: room.settings.mode, players: room.players.map(({ id, name }) => ({ id, name })) });
+      } else if (event.event === "phase:voting") {
+        notify(room, "voting.started", { round: room.round, candidates: room.voteCandidates, turnEndsAt: room.turnEndsAt });
+      } else if (event.event === "phase:results") {
+        notify(room, "round.results", { round: room.round, ...(event.data as object) });
+      }
+      break;
+    }
+    case "kicked":
+      io.to(event.playerId).emit("room:kicked", { banned: event.banned });
+      detachPlayer(room.code, event.playerId);
+      break;
+    case "closed":
+      closeRoom(room);
+      break;
+    case "roundEnded":
+      // the summary published the seed, so the rest of the room's games get a fresh one
+      if (event.summary.seed != null) {
+        dispatch(room.code, { type: "reseed", seed: randomInt(2 ** 32) });
+        randoms.delete(room.code);
+      }
+      recordRound(event.imposterProfileIds, event.crewProfileIds, event.summary.imposterWins);
+      storage.appendRound(event.summary).catch((err) => console.error(`Failed to store round of ${room.code}:`, err));
+      storage.saveTimeline(event.timeline).catch((err) => console.error(`Failed to store timeline of ${room.code}:`, err));
+      break;
+    case "guessed":
+      recordGuess(event.profileId, event.correct);
+      break;
+  }
+}
 
-  clearTimer(room);
-  room.timerRef = setTimeout(() => {
-    room.turnIndex += 1;
-    startTurn(room);
-  }, TURN_MS + 100);
+function notify(room: RoomState, event: WebhookEvent, data: unknown) {
+  if (!room.webhooks) return;
+  webhooks.send(room.code, room.webhooks, event, data).catch((err) => console.error(`Webhooks of ${room.code} failed:`, err));
 }
 
-function startGame(room: RoomState) {
-  if (room.players.length < 3) return;
+function clearPhaseTimer(code: string) {
+  const timer = phaseTimers.get(code);
+  if (timer) clearTimeout(timer);
+  phaseTimers.delete(code);
+}
 
-  room.round += 1;
-  room.turnIndex = 0;
-  room.votes = {};
+// Every timed phase has a single timer for the room's current deadline. The engine ignores a
+// timer whose deadline is no longer current, so a restored or late timer can't skip a phase.
+function schedulePhaseTimer(room: RoomState) {
+  clearPhaseTimer(room.code);
+  const deadline = room.turnEndsAt;
+  if (deadline === null) return;
+  phaseTimers.set(
+    room.code,
+    setTimeout(() => {
+      phaseTimers.delete(room.code);
+      dispatch(room.code, { type: "timeout", deadline });
+    }, Math.max(0, deadline - Date.now()) + 100)
+  );
+}
 
-  const imposter = room.players[Math.floor(Math.random() * room.players.length)];
-  const { realWord, fakeWord } = pickWordPair();
-  room.imposterId = imposter.id;
-  room.realWord = realWord;
-  room.fakeWord = fakeWord;
+function getSession(socketId: string) {
+  const session = socketToRoom.get(socketId);
+  if (!session) return null;
+  const room = rooms.get(session.code);
+  if (!room) return null;
+  return { room, playerId: session.playerId };
+}
 
-  broadcastWords(room);
-  io.to(room.code).emit("sfx", "turn");
-  startTurn(room);
+function attachSocket(socket: Socket, code: string, playerId: string) {
+  socketToRoom.set(socket.id, { code, playerId });
+  socket.leave(LOBBY_FEED);
+  socket.join(code);
+  // every socket of a player also joins a channel named after the player id,
+  // so io.to(playerId) keeps reaching them across reconnects
+  socket.join(playerId);
 }
 
-function computeVoting(room: RoomState) {
-  const tally: Record<string, number> = {};
-  Object.values(room.votes).forEach((targetId) => {
-    tally[targetId] = (tally[targetId] ?? 0) + 1;
-  });
+// A kicked player's sockets leave the room, so only a fresh join (which a ban prevents) brings them back.
+function detachPlayer(code: string, playerId: string) {
+  clearDropTimer(code, playerId);
+  for (const [socketId, session] of socketToRoom) {
+    if (session.playerId !== playerId) continue;
+    socketToRoom.delete(socketId);
+    io.sockets.sockets.get(socketId)?.leave(code);
+  }
+}
+
+function clearDropTimer(code: string, playerId: string) {
+  const timers = dropTimers.get(code);
+  const timer = timers?.get(playerId);
+  if (timer) clearTimeout(timer);
+  timers?.delete(playerId);
+}
+
+function startDropTimer(code: string, playerId: string) {
+  const timers = dropTimers.get(code) ?? new Map<string, NodeJS.Timeout>();
+  dropTimers.set(code, timers);
+  timers.set(
+    playerId,
+    setTimeout(() => {
+      timers.delete(playerId);
+      dispatch(code, { type: "leave", playerId });
+    }, RECONNECT_GRACE_MS)
+  );
+}
 
-  const sorted = Object.entries(tally).sort((a, b) => b[1] - a[1]);
-  const suspected = sorted[0]?.[0];
-  const imposterWins = suspected !== room.imposterId;
-
-  if (room.imposterId) {
-    room.players.forEach((p) => {
-      room.leaderboard[p.id] = room.leaderboard[p.id] ?? { wins: p.wins, losses: p.losses };
-      if (imposterWins) {
-        if (p.id === room.imposterId) room.leaderboard[p.id].wins += 1;
-        else room.leaderboard[p.id].losses += 1;
-      } else {
-        if (p.id === room.imposterId) room.leaderboard[p.id].losses += 1;
-        else room.leaderboard[p.id].wins += 1;
+type Reply = {
+  ok(data?: Record<string, unknown>): void;
+  fail(code: ErrorCode, params?: ErrorParams, extra?: Pick<ErrorAck, "details" | "issues">): void;
+};
+
+function settle(reply: Reply, outcome: Outcome) {
+  if (outcome.ok) reply.ok(outcome.reply);
+  else reply.fail(outcome.error, outcome.params);
+}
+
+io.on("connection", (socket) => {
+  // Every event goes through here: rate limit, payload schema, then the handler. Failures are
+  // answered through the ack callback when there is one, otherwise as a `server:error` event.
+  function on<T>(event: string, schema: Schema<T>, limiter: Limiter, handler: (payload: T, reply: Reply) => void) {
+    socket.on(event, (...args: unknown[]) => {
+      const cb = typeof args[args.length - 1] === "function" ? (args.pop() as (res: unknown) => void) : null;
+      const reply: Reply = {
+        ok: (data) => cb?.({ ok: true, ...data }),
+        fail: (code, params, extra) => {
+          const ack = errorAck(code, params, extra);
+          if (cb) cb(ack);
+          else socket.emit("server:error", { event, ...ack });
+        }
+      };
+
+      if (!limiter.take(socket.id)) return reply.fail("RATE_LIMITED");
+      const parsed = schema(args[0] ?? {}, "");
+      if (!parsed.ok) return reply.fail("INVALID_PAYLOAD", undefined, { details: describeIssue(parsed.issue), issues: [parsed.issue] });
+      try {
+        handler(parsed.value, reply);
+      } catch (err) {
+        console.error(`Handler for ${event} failed:`, err);
+        reply.fail("INTERNAL");
       }
     });
   }
 
-  room.phase = "results";
-  room.turnEndsAt = null;
-  emitRoom(room);
-  io.to(room.code).emit("phase:results", {
-    suspected,
-    imposterId: room.imposterId,
-    realWord: room.realWord,
-    tally,
-    imposterWins
-  });
-}
+  // Events from someone seated in a room that map straight to an engine command.
+  function onCommand<T>(event: string, schema: Schema<T>, limiter: Limiter, toCommand: (payload: T, playerId: string) => Command) {
+    on(event, schema, limiter, (payload, reply) => {
+      const session = getSession(socket.id);
+      if (!session) return reply.fail("NOT_IN_ROOM");
+      settle(reply, dispatch(session.room.code, toCommand(payload, session.playerId), socket));
+    });
+  }
 
-io.on("connection", (socket) => {
-  socket.on("room:create", ({ name }: { name: string }, cb) => {
+  on("room:create", payloads.roomCreate, limits.roomCreate, ({ name, profileKey, language: requested, seed }, reply) => {
+    if (rooms.size >= MAX_ROOMS) return reply.fail("TOO_MANY_ROOMS");
     const code = makeRoomCode();
-    const player: Player = { id: socket.id, name: name?.slice(0, 24) || "Host", isHost: true, connected: true, wins: 0, losses: 0 };
-
-    const room: RoomState = {
+    const token = nanoid(24);
+    const room = createRoom({
       code,
-      players: [player],
-      phase: "lobby",
-      hostId: socket.id,
-      turnIndex: 0,
-      round: 0,
-      imposterId: null,
-      realWord: null,
-      fakeWord: null,
-      currentDrawerId: null,
-      drawing: [],
-      chat: [],
-      votes: {},
-      leaderboard: { [player.id]: { wins: 0, losses: 0 } },
-      turnEndsAt: null
-    };
+      hostId: nanoid(10),
+      profileId: profileIdFor(profileKey),
+      name,
+      token,
+      language: requested && packLanguages().includes(requested) ? requested : DEFAULT_LANGUAGE,
+      seed: seed ?? (GAME_SEED === null ? null : deriveSeed(GAME_SEED, gameSeededRooms++)),
+      now: Date.now()
+    });
+    const host = room.players[0];
+    if (host.profileId) touchProfile(host.profileId, host.name);
 
     rooms.set(code, room);
-    socketToRoom.set(socket.id, code);
-    socket.join(code);
-    emitRoom(room);
-    cb?.({ code, playerId: socket.id });
+    attachSocket(socket, code, host.id);
+    io.to(code).emit("room:update", roomView(room));
+    persistRoom(code);
+    reply.ok({ code, playerId: host.id, token });
   });
 
-  socket.on("room:join", ({ code, name }: { code: string; name: string }, cb) => {
-    const room = rooms.get(code?.toUpperCase());
-    if (!room) return cb?.({ error: "Lobby nicht gefunden." });
-
-    const player: Player = { id: socket.id, name: name?.slice(0, 24) || "Spieler", isHost: false, connected: true, wins: 0, losses: 0 };
-    room.players.push(player);
-    room.leaderboard[player.id] = { wins: 0, losses: 0 };
-
-    socketToRoom.set(socket.id, room.code);
-    socket.join(room.code);
-    emitRoom(room);
-    cb?.({ code: room.code, playerId: socket.id });
+  on("room:join", payloads.roomJoin, limits.general, ({ code, name, profileKey, spectate, password }, reply) => {
+    const room = rooms.get(code.toUpperCase());
+    if (!room) return reply.fail("ROOM_NOT_FOUND");
+    const playerId = nanoid(10);
+    const token = nanoid(24);
+    const profileId = profileIdFor(profileKey);
+    const outcome = dispatch(room.code, { type: "join", playerId, profileId, name, token, spectate, password }, socket, () =>
+      attachSocket(socket, room.code, playerId)
+    );
+    if (!outcome.ok) return settle(reply, outcome);
+    const player = findMember(rooms.get(room.code) ?? room, playerId);
+    if (profileId && player) touchProfile(profileId, player.name);
+    reply.ok({ code: room.code, playerId, token, spectator: outcome.reply?.spectator });
   });
 
-  socket.on("game:start", () => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room || room.hostId !== socket.id) return;
-    startGame(room);
-  });
+  on("room:rejoin", payloads.roomRejoin, limits.general, ({ code, token }, reply) => {
+    const room = rooms.get(code.toUpperCase());
+    const playerId = room?.tokens[token];
+    if (!room || !playerId) return reply.fail("SESSION_EXPIRED");
 
-  socket.on("draw:stroke", (stroke: DrawEvent) => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room || room.currentDrawerId !== socket.id || room.phase !== "drawing") return;
-    room.drawing.push(stroke);
-    socket.to(code).emit("draw:stroke", stroke);
+    clearDropTimer(room.code, playerId);
+    const outcome = dispatch(room.code, { type: "reconnect", playerId }, socket, () => attachSocket(socket, room.code, playerId));
+    if (!outcome.ok) return settle(reply, outcome);
+    reply.ok({ code: room.code, playerId, token, spectator: outcome.reply?.spectator });
   });
 
-  socket.on("chat:send", ({ message }: { message: string }) => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room) return;
-    const player = room.players.find((p) => p.id === socket.id);
-    if (!player) return;
-    const msg = { playerId: socket.id, name: player.name, message: message.slice(0, 200), ts: Date.now() };
-    room.chat.push(msg);
-    io.to(code).emit("chat:new", msg);
-  });
-
-  socket.on("vote:submit", ({ targetId }: { targetId: string }) => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room || room.phase !== "voting") return;
-    room.votes[socket.id] = targetId;
-    emitRoom(room);
-
-    if (Object.keys(room.votes).length >= room.players.length) {
-      io.to(code).emit("sfx", "voting");
-      computeVoting(room);
+  onCommand("spectator:seat", payloads.empty, limits.general, (_payload, playerId) => ({ type: "seat", playerId }));
+  onCommand("game:start", payloads.empty, limits.general, (_payload, playerId) => ({ type: "start", playerId }));
+  onCommand("round:next", payloads.empty, limits.general, (_payload, playerId) => ({ type: "nextRound", playerId }));
+  onCommand("room:settings", payloads.roomSettings, limits.general, (patch, playerId) => ({
+    type: "settings",
+    playerId,
+    patch: patch as Partial<RoomSettings>
+  }));
+  onCommand("room:packs", payloads.roomPacks, limits.general, ({ packIds }, playerId) => ({ type: "packs", playerId, packIds }));
+  onCommand("room:language", payloads.roomLanguage, limits.general, ({ language }, playerId) => ({ type: "language", playerId, language }));
+
+  on("draw:points", payloads.drawPoints, limits.stroke, (batch, reply) => {
+    if (batch.points.length < 4 || batch.points.length % 2 !== 0) {
+      return reply.fail("INVALID_PAYLOAD", undefined, { details: "points needs at least two x/y pairs", issues: [issue("points", "format")] });
     }
+    const session = getSession(socket.id);
+    if (!session) return reply.fail("NOT_IN_ROOM");
+    settle(reply, dispatch(session.room.code, { type: "stroke", playerId: session.playerId, batch }, socket));
+  });
+  onCommand("turn:end", payloads.empty, limits.general, (_payload, playerId) => ({ type: "endTurn", playerId }));
+  onCommand("timer:pause", payloads.timerPause, limits.general, ({ paused }, playerId) => ({ type: "pause", playerId, paused }));
+  onCommand("draw:undo", payloads.empty, limits.general, (_payload, playerId) => ({ type: "undo", playerId }));
+  onCommand("draw:redo", payloads.empty, limits.general, (_payload, playerId) => ({ type: "redo", playerId }));
+  onCommand("draw:clear", payloads.empty, limits.general, (_payload, playerId) => ({ type: "clear", playerId }));
+
+  onCommand("bot:add", payloads.empty, limits.general, (_payload, playerId) => ({ type: "addBot", playerId, botId: nanoid(10) }));
+  onCommand("host:kick", payloads.hostKick, limits.general, ({ playerId: targetId, ban }, playerId) => ({
+    type: "kick",
+    playerId,
+    targetId,
+    ban: ban === true
+  }));
+  onCommand("host:transfer", payloads.hostTransfer, limits.general, ({ playerId: targetId }, playerId) => ({ type: "transferHost", playerId, targetId }));
+  onCommand("room:lock", payloads.roomLock, limits.general, ({ locked }, playerId) => ({ type: "lock", playerId, locked }));
+  onCommand("room:password", payloads.roomPassword, limits.general, ({ password }, playerId) => ({ type: "password", playerId, password }));
+  onCommand("webhooks:set", payloads.webhooksSet, limits.general, ({ urls }, playerId) => ({ type: "webhooks", playerId, urls, secret: nanoid(32) }));
+  on("webhooks:get", payloads.empty, limits.general, (_payload, reply) => {
+    const session = getSession(socket.id);
+    if (!session) return reply.fail("NOT_IN_ROOM");
+    const { room, playerId } = session;
+    if (room.hostId !== playerId) return reply.fail("HOST_ONLY");
+    reply.ok({ urls: room.webhooks?.urls ?? [], secret: room.webhooks?.secret ?? null, deliveries: webhooks.deliveries(room.code) });
   });
+  onCommand("room:visibility", payloads.roomVisibility, limits.general, ({ isPublic, name }, playerId) => ({ type: "visibility", playerId, isPublic, name }));
 
-  socket.on("imposter:guess", ({ guess }: { guess: string }, cb) => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room || socket.id !== room.imposterId) return;
-
-    const correct = guess.trim().toLowerCase() === room.realWord?.toLowerCase();
-    if (correct) {
-      room.phase = "results";
-      room.players.forEach((p) => {
-        room.leaderboard[p.id] = room.leaderboard[p.id] ?? { wins: 0, losses: 0 };
-        if (p.id === socket.id) room.leaderboard[p.id].wins += 1;
-        else room.leaderboard[p.id].losses += 1;
-      });
-      emitRoom(room);
-      io.to(code).emit("phase:results", {
-        suspected: null,
-        imposterId: room.imposterId,
-        realWord: room.realWord,
-        tally: room.votes,
-        imposterWins: true,
-        guessedWord: guess
-      });
-    }
+  // clients measure their clock offset with this to show countdowns in server time
+  on("time:sync", payloads.empty, limits.general, (_payload, reply) => reply.ok({ serverTime: Date.now() }));
 
-    cb?.({ correct });
+  on("lobbies:subscribe", payloads.empty, limits.general, (_payload, reply) => {
+    socket.join(LOBBY_FEED);
+    socket.emit("lobbies:list", publicRooms());
+    reply.ok();
   });
 
-  socket.on("round:next", () => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
-    const room = rooms.get(code);
-    if (!room || room.hostId !== socket.id) return;
-    startGame(room);
+  on("lobbies:unsubscribe", payloads.empty, limits.general, (_payload, reply) => {
+    socket.leave(LOBBY_FEED);
+    reply.ok();
   });
 
+  onCommand("chat:send", payloads.chatSend, limits.chat, ({ message }, playerId) => ({ type: "chat", playerId, message }));
+  onCommand("vote:submit", payloads.voteSubmit, limits.general, ({ targetId }, playerId) => ({ type: "vote", playerId, targetId }));
+  onCommand("imposter:guess", payloads.imposterGuess, limits.general, ({ guess }, playerId) => ({ type: "guess", playerId, guess }));
+
   socket.on("disconnect", () => {
-    const code = socketToRoom.get(socket.id);
-    if (!code) return;
+    Object.values(limits).forEach((limiter) => limiter.forget(socket.id));
+    const session = getSession(socket.id);
     socketToRoom.delete(socket.id);
-    const room = rooms.get(code);
-    if (!room) return;
+    if (!session) return;
+    const { room, playerId } = session;
 
-    room.players = room.players.filter((p) => p.id !== socket.id);
-    delete room.leaderboard[socket.id];
+    const otherSocket = [...socketToRoom.values()].some((s) => s.playerId === playerId);
+    if (otherSocket) return;
+    if (dispatch(room.code, { type: "disconnect", playerId }).ok) startDropTimer(room.code, playerId);
+  });
+});
 
-    if (room.hostId === socket.id && room.players[0]) {
-      room.hostId = room.players[0].id;
-      room.players[0].isHost = true;
-    }
+// win/loss counts that rooms saved before points replaced them
+const withoutRecord = ({ wins: _wins, losses: _losses, ...player }: StoredPlayer): Player => player;
 
-    if (room.players.length === 0) {
-      clearTimer(room);
-      rooms.delete(code);
-      return;
+// Rooms come back with everybody disconnected; clients reclaim their seats with
+// their session token, and timed phases continue from the stored deadline.
+
+function restoreRooms() {
+  const now = Date.now();
+  for (const stored of storage.loadRooms()) {
+    if (now - stored.lastActiveAt > ROOM_TTL_MS) {
+      storage.deleteRoom(stored.code).catch(() => {});
+      continue;
     }
+    const { leaderboard: _leaderboard, ...current } = stored;
+    const room: RoomState = {
+      ...current,
+      seed: stored.seed ?? null,
+      scores: stored.scores ?? [],
+      pausedTimeLeft: stored.pausedTimeLeft ?? null,
+      category: stored.category ?? null,
+      webhooks: stored.webhooks ?? null,
+      settings: { ...DEFAULT_SETTINGS, ...stored.settings },
+      // nobody is connected after a restart: whoever doesn't come back in time is dropped
+      players: stored.players.map((p) => ({ ...withoutRecord(p), connected: p.bot ? p.connected : false })),
+      spectators: stored.spectators.map((p) => ({ ...withoutRecord(p), connected: false }))
+    };
+    rooms.set(room.code, room);
+    [...room.players, ...room.spectators].filter((p) => !p.bot).forEach((p) => startDropTimer(room.code, p.id));
+    schedulePhaseTimer(room);
+  }
+  if (rooms.size > 0) console.log(`Restored ${rooms.size} room(s)`);
+}
 
-    emitRoom(room);
+function sweepIdleRooms() {
+  const now = Date.now();
+  rooms.forEach((room) => {
+    if (now - room.lastActiveAt <= ROOM_TTL_MS) return;
+    io.to(room.code).emit("room:closed");
+    closeRoom(room);
   });
-});
+}
+
+restoreRooms();
+setInterval(sweepIdleRooms, 60_000).unref();
 
 const PORT = Number(process.env.PORT || 3001);
 httpServer.listen(PORT, () => {
@@ -0,0 +1,48 @@
+import { COORD_SCALE, MAX_BATCH_POINTS } from "./strokes.js";
+import { v } from "./validation.js";
+
+export const MAX_BRUSH_SIZE = 0.1;
+export const MAX_NAME_LENGTH = 24;
+export const MAX_CHAT_LENGTH = 200;
+export const MAX_GUESS_LENGTH = 40;
+export const MAX_PASSWORD_LENGTH = 64;
+export const MAX_ROOM_NAME_LENGTH = 40;
+
+const name = v.optional(v.string({ max: 64 }));
+const profileKey = v.optional(v.string({ max: 128 }));
+const language = v.string({ pattern: /^[a-z]{2}$/ });
+
+// One schema per client event. Events without a payload accept an empty object.
+export const payloads = {
+  empty: v.object({}),
+  roomCreate: v.object({ name, profileKey, language: v.optional(language), seed: v.optional(v.number({ min: 0, max: 0xffffffff, integer: true })) }),
+  roomLanguage: v.object({ language }),
+  roomJoin: v.object({
+    code: v.string({ min: 1, max: 12 }),
+    name,
+    profileKey,
+    spectate: v.optional(v.boolean()),
+    password: v.optional(v.string({ max: MAX_PASSWORD_LENGTH }))
+  }),
+  roomRejoin: v.object({ code: v.string({ min: 1, max: 12 }), token: v.string({ min: 1, max: 64 }) }),
+  roomSettings: v.record({ maxKeys: 32 }),
+  roomPacks: v.object({ packIds: v.array(v.string({ min: 1, max: 64 }), { max: 20 }) }),
+  drawPoints: v.object({
+    id: v.string({ min: 1, max: 32 }),
+    color: v.string({ pattern: /^#[0-9a-fA-F]{6}$/ }),
+    size: v.number({ min: 0.001, max: MAX_BRUSH_SIZE }),
+    tool: v.literal("brush", "eraser"),
+    points: v.array(v.number({ min: 0, max: COORD_SCALE, integer: true }), { max: MAX_BATCH_POINTS * 2 })
+  }),
+  hostKick: v.object({ playerId: v.string({ min: 1, max: 32 }), ban: v.optional(v.boolean()) }),
+  hostTransfer: v.object({ playerId: v.string({ min: 1, max: 32 }) }),
+  roomLock: v.object({ locked: v.boolean() }),
+  timerPause: v.object({ paused: v.boolean() }),
+  webhooksSet: v.object({ urls: v.array(v.string({ max: 500 }), { max: 10 }) }),
+  // an empty password removes it
+  roomPassword: v.object({ password: v.string({ max: MAX_PASSWORD_LENGTH }) }),
+  roomVisibility: v.object({ isPublic: v.boolean(), name: v.optional(v.string({ max: MAX_ROOM_NAME_LENGTH })) }),
+  chatSend: v.object({ message: v.string({ min: 1, max: MAX_CHAT_LENGTH }) }),
+  voteSubmit: v.object({ targetId: v.string({ min: 1, max: 32 }) }),
+  imposterGuess: v.object({ guess: v.string({ min: 1, max: MAX_GUESS_LENGTH }) })
+};
@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import type { Storage } from "./storage.js";
+import type { PlayerProfile } from "./types.js";
+
+const START_RATING = 1000;
+const K_FACTOR = 24;
+
+const profiles = new Map<string, PlayerProfile>();
+let store: Storage | null = null;
+
+export function loadProfiles(storage: Storage) {
+  store = storage;
+  storage.loadProfiles().forEach((p) => profiles.set(p.id, p));
+}
+
+function save(profile: PlayerProfile) {
+  profile.updatedAt = Date.now();
+  store?.saveProfile(profile).catch((err) => console.error(`Failed to save profile ${profile.id}:`, err));
+}
+
+// The client keeps a secret profile key; only its hash is ever shown to other players,
+// so nobody can play under someone else's profile by copying a public id.
+export function profileIdFor(key: unknown) {
+  if (typeof key !== "string" || key.length < 16 || key.length > 64) return null;
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export function touchProfile(id: string, name: string) {
+  const profile = profiles.get(id) ?? {
+    id,
+    name,
+    games: 0,
+    imposterGames: 0,
+    imposterWins: 0,
+    crewWins: 0,
+    guesses: 0,
+    correctGuesses: 0,
+    rating: START_RATING,
+    updatedAt: Date.now()
+  };
+  profile.name = name;
+  profiles.set(id, profile);
+  save(profile);
+}
+
+export function recordGuess(id: string, correct: boolean) {
+  const profile = profiles.get(id);
+  if (!profile) return;
+  profile.guesses += 1;
+  if (correct) profile.correctGuesses += 1;
+  save(profile);
+}
+
+const average = (list: PlayerProfile[]) => list.reduce((sum, p) => sum + p.rating, 0) / list.length;
+
+// Elo between the imposter team and the crew, using each team's average rating.
+// Everyone on a team gets the same rating change.
+export function recordRound(imposterIds: string[], crewIds: string[], imposterWins: boolean) {
+  const imposters = imposterIds.map((id) => profiles.get(id)).filter((p): p is PlayerProfile => !!p);
+  const crew = crewIds.map((id) => profiles.get(id)).filter((p): p is PlayerProfile => !!p);
+
+  const expected = imposters.length && crew.length ? 1 / (1 + 10 ** ((average(crew) - average(imposters)) / 400)) : 0.5;
+  const delta = Math.round(K_FACTOR * ((imposterWins ? 1 : 0) - expected));
+
+  imposters.forEach((p) => {
+    p.games += 1;
+    p.imposterGames += 1;
+    if (imposterWins) p.imposterWins += 1;
+    p.rating += delta;
+    save(p);
+  });
+  crew.forEach((p) => {
+    p.games += 1;
+    if (!imposterWins) p.crewWins += 1;
+    p.rating -= delta;
+    save(p);
+  });
+}
+
+export function profileView(profile: PlayerProfile) {
+  return {
+    ...profile,
+    guessAccuracy: profile.guesses > 0 ? profile.correctGuesses / profile.guesses : null
+  };
+}
+
+export function getProfile(id: string) {
+  const profile = profiles.get(id);
+  return profile ? profileView(profile) : null;
+}
+
+export function topProfiles(limit: number) {
+  return [...profiles.values()]
+    .filter((p) => p.games > 0)
+    .sort((a, b) => b.rating - a.rating)
+    .slice(0, limit)
+    .map(profileView);
+}
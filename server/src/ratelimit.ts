@@ -0,0 +1,27 @@
+// Token buckets: each key may spend up to `capacity` tokens at once, refilled at
+// `refillPerSecond`. Used per socket so one client can't flood a room.
+export type Limiter = {
+  take(key: string, cost?: number): boolean;
+  forget(key: string): void;
+};
+
+export function createLimiter(capacity: number, refillPerSecond: number): Limiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    take(key, cost = 1) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+      if (bucket.tokens < cost) return false;
+      bucket.tokens -= cost;
+      return true;
+    },
+
+    forget(key) {
+      buckets.delete(key);
+    }
+  };
+}
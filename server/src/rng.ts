@@ -0,0 +1,24 @@
+import { createHash } from "node:crypto";
+
+// Deterministic random numbers (mulberry32) for seeded rooms and tests: the same seed
+// and the same sequence of commands pick the same imposters, words and turn orders.
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// One seed per index (e.g. per room under GAME_SEED) from which neither the others nor `seed`
+// can be worked out, so publishing one gives nothing else away.
+export function deriveSeed(seed: number, index: number) {
+  return createHash("sha256").update(`${seed}:${index}`).digest().readUInt32BE(0);
+}
+
+export function isValidSeed(seed: unknown): seed is number {
+  return typeof seed === "number" && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff;
+}
@@ -0,0 +1,70 @@
+import type { RoomState } from "./types.js";
+
+export type ScoreBreakdown = {
+  correctVotes: number;
+  speedBonus: number;
+  survived: number;
+  correctGuess: number;
+  unsuspected: number;
+  total: number;
+};
+
+export type RoundScore = { round: number; points: Record<string, ScoreBreakdown> };
+
+// Points for the round that just ended, per player:
+// - crew members score for every vote on an imposter, plus a speed bonus that shrinks
+//   from the full bonus to nothing over the voting time
+// - imposters score for not being voted out and for guessing the real word
+// - anyone whose drawing didn't attract a single vote scores for it
+export function scoreRound(room: RoomState): Record<string, ScoreBreakdown> {
+  const { settings } = room;
+  const votingMs = settings.votingSeconds * 1000;
+  const isImposter = (id: string) => room.imposterIds.includes(id);
+
+  // when each voting phase started and when each voter last changed their vote in it;
+  // the n-th voting phase produced the n-th vote record
+  const phases: { startedAt: number; votedAt: Record<string, number> }[] = [];
+  for (const event of room.timeline) {
+    if (event.type === "phase" && event.phase === "voting") phases.push({ startedAt: event.ts, votedAt: {} });
+    if (event.type === "vote" && phases.length > 0) phases[phases.length - 1].votedAt[event.voterId] = event.ts;
+  }
+
+  const points: Record<string, ScoreBreakdown> = {};
+  room.players.forEach((p) => (points[p.id] = { correctVotes: 0, speedBonus: 0, survived: 0, correctGuess: 0, unsuspected: 0, total: 0 }));
+
+  room.voteHistory.forEach((record, i) => {
+    for (const [voterId, targetId] of Object.entries(record.votes)) {
+      if (!points[voterId] || isImposter(voterId) || !isImposter(targetId)) continue;
+      points[voterId].correctVotes += settings.pointsCorrectVote;
+      const phase = phases[i];
+      const took = phase ? (phase.votedAt[voterId] ?? phase.startedAt + votingMs) - phase.startedAt : votingMs;
+      points[voterId].speedBonus += Math.round(settings.pointsSpeedBonus * Math.max(0, 1 - took / votingMs));
+    }
+  });
+
+  room.imposterIds.forEach((id) => {
+    if (points[id] && !room.eliminated.includes(id)) points[id].survived = settings.pointsImposterSurvived;
+  });
+  room.timeline.forEach((event) => {
+    if (event.type === "guess" && event.correct && points[event.playerId]) points[event.playerId].correctGuess = settings.pointsCorrectGuess;
+  });
+
+  const suspected = new Set(room.voteHistory.flatMap((record) => Object.values(record.votes)));
+  Object.keys(room.drawings[room.round] ?? {}).forEach((id) => {
+    if (points[id] && !suspected.has(id)) points[id].unsuspected = settings.pointsUnsuspected;
+  });
+
+  Object.values(points).forEach((p) => (p.total = p.correctVotes + p.speedBonus + p.survived + p.correctGuess + p.unsuspected));
+  return points;
+}
+
+// Totals of the current match, highest first.
+export function standings(room: RoomState) {
+  return room.players
+    .map((p) => ({ id: p.id, name: p.name, points: room.scores.reduce((sum, s) => sum + (s.points[p.id]?.total ?? 0), 0) }))
+    .sort((a, b) => b.points - a.points);
+}
+
+export function isMatchOver(room: RoomState) {
+  return room.settings.matchRounds > 0 && room.scores.length >= room.settings.matchRounds;
+}
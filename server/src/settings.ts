@@ -0,0 +1,150 @@
+import type { ChatFilterMode } from "./chatfilter.js";
+
+// What the imposters are told at the start of a round:
+// - classic: a different word of the same pair
+// - category: only the category of the real word
+// - blind: nothing at all
+// - undercover: a different word, without being told that they are the imposter
+export type GameMode = "classic" | "category" | "blind" | "undercover";
+
+export const GAME_MODES: GameMode[] = ["classic", "category", "blind", "undercover"];
+
+export type RoomSettings = {
+  mode: GameMode;
+  turnSeconds: number;
+  // how many times every player draws per round
+  laps: number;
+  turnOrder: "fixed" | "random";
+  minPlayers: number;
+  maxPlayers: number;
+  // 0 scales the number of imposters with the player count
+  imposterCount: number;
+  impostersKnowEachOther: boolean;
+  // time to talk about the drawings before voting; 0 skips the discussion
+  discussionSeconds: number;
+  votingSeconds: number;
+  // what happens when several players share the most votes
+  tieRule: "revote" | "imposterWins";
+  // word guesses per imposter and round, not counting the last chance after being voted out
+  guessAttempts: number;
+  // spectators may take a free seat between rounds
+  allowSpectatorSeats: boolean;
+  // what happens to chat messages that give away the real or fake word
+  chatFilter: ChatFilterMode;
+  // nobody can chat while a turn is running
+  quietWhileDrawing: boolean;
+  // points per round, see scoring.ts
+  pointsCorrectVote: number;
+  // most extra points for a correct vote, shrinking the longer the voter took
+  pointsSpeedBonus: number;
+  pointsImposterSurvived: number;
+  pointsCorrectGuess: number;
+  // for drawers who didn't get a single vote
+  pointsUnsuspected: number;
+  // rounds per match, followed by a podium; 0 plays on without one
+  matchRounds: number;
+};
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  mode: "classic",
+  turnSeconds: 20,
+  laps: 1,
+  turnOrder: "fixed",
+  minPlayers: 3,
+  maxPlayers: 10,
+  imposterCount: 1,
+  impostersKnowEachOther: false,
+  discussionSeconds: 30,
+  votingSeconds: 60,
+  tieRule: "revote",
+  guessAttempts: 2,
+  allowSpectatorSeats: true,
+  chatFilter: "mask",
+  quietWhileDrawing: false,
+  pointsCorrectVote: 2,
+  pointsSpeedBonus: 1,
+  pointsImposterSurvived: 3,
+  pointsCorrectGuess: 3,
+  pointsUnsuspected: 1,
+  matchRounds: 5
+};
+
+const LIMITS = {
+  turnSeconds: [5, 120],
+  laps: [1, 3],
+  minPlayers: [3, 16],
+  maxPlayers: [3, 16],
+  imposterCount: [0, 5],
+  discussionSeconds: [0, 300],
+  votingSeconds: [10, 180],
+  guessAttempts: [1, 5],
+  pointsCorrectVote: [0, 10],
+  pointsSpeedBonus: [0, 10],
+  pointsImposterSurvived: [0, 10],
+  pointsCorrectGuess: [0, 10],
+  pointsUnsuspected: [0, 10],
+  matchRounds: [0, 20]
+} as const;
+
+export type SettingsError = { field: string; min?: number; max?: number };
+
+// Merges a partial update into the current settings. Returns the offending field
+// (and its range, for numbers) instead of the merged settings when a value is invalid.
+export function applySettings(current: RoomSettings, patch: Partial<RoomSettings>): { settings: RoomSettings } | { error: SettingsError } {
+  if (!patch || typeof patch !== "object") return { error: { field: "settings" } };
+  const next = { ...current };
+
+  for (const key of Object.keys(LIMITS) as (keyof typeof LIMITS)[]) {
+    if (patch[key] === undefined) continue;
+    const value = patch[key];
+    const [min, max] = LIMITS[key];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      return { error: { field: key, min, max } };
+    }
+    next[key] = value;
+  }
+
+  if (patch.mode !== undefined) {
+    if (!GAME_MODES.includes(patch.mode)) return { error: { field: "mode" } };
+    next.mode = patch.mode;
+  }
+
+  if (patch.turnOrder !== undefined) {
+    if (patch.turnOrder !== "fixed" && patch.turnOrder !== "random") return { error: { field: "turnOrder" } };
+    next.turnOrder = patch.turnOrder;
+  }
+
+  if (patch.impostersKnowEachOther !== undefined) {
+    if (typeof patch.impostersKnowEachOther !== "boolean") return { error: { field: "impostersKnowEachOther" } };
+    next.impostersKnowEachOther = patch.impostersKnowEachOther;
+  }
+
+  if (patch.allowSpectatorSeats !== undefined) {
+    if (typeof patch.allowSpectatorSeats !== "boolean") return { error: { field: "allowSpectatorSeats" } };
+    next.allowSpectatorSeats = patch.allowSpectatorSeats;
+  }
+
+  if (patch.quietWhileDrawing !== undefined) {
+    if (typeof patch.quietWhileDrawing !== "boolean") return { error: { field: "quietWhileDrawing" } };
+    next.quietWhileDrawing = patch.quietWhileDrawing;
+  }
+
+  if (patch.chatFilter !== undefined) {
+    if (!["off", "mask", "block"].includes(patch.chatFilter)) return { error: { field: "chatFilter" } };
+    next.chatFilter = patch.chatFilter;
+  }
+
+  if (patch.tieRule !== undefined) {
+    if (patch.tieRule !== "revote" && patch.tieRule !== "imposterWins") return { error: { field: "tieRule" } };
+    next.tieRule = patch.tieRule;
+  }
+
+  if (next.minPlayers > next.maxPlayers) return { error: { field: "minPlayers", max: next.maxPlayers } };
+  return { settings: next };
+}
+
+// Imposters always stay a minority: at most (players - 1) / 2 of them.
+export function imposterCountFor(settings: RoomSettings, playerCount: number) {
+  const wanted = settings.imposterCount === 0 ? Math.ceil(playerCount / 5) : settings.imposterCount;
+  return Math.max(1, Math.min(wanted, Math.floor((playerCount - 1) / 2)));
+}
@@ -0,0 +1,176 @@
+import { normalizeWord } from "./guess.js";
+
+// A sketch is a list of polylines in a unit square (x right, y down) that bots trace on their turn.
+export type Point = [number, number];
+export type Sketch = Point[][];
+
+const line = (...coords: number[]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < coords.length; i += 2) points.push([coords[i], coords[i + 1]]);
+  return points;
+};
+
+// angles in degrees, clockwise from 3 o'clock
+const arc = (cx: number, cy: number, rx: number, ry: number, from = 0, to = 360): Point[] => {
+  const steps = Math.max(6, Math.round(Math.abs(to - from) / 15));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const a = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return [cx + rx * Math.cos(a), cy + ry * Math.sin(a)];
+  });
+};
+
+const circle = (cx: number, cy: number, r: number) => arc(cx, cy, r, r);
+const rect = (x: number, y: number, w: number, h: number) => line(x, y, x + w, y, x + w, y + h, x, y + h, x, y);
+
+const wave = (x0: number, x1: number, y: number, amplitude: number, waves = 3): Point[] =>
+  Array.from({ length: waves * 8 + 1 }, (_, i) => [x0 + ((x1 - x0) * i) / (waves * 8), y + amplitude * Math.sin((i / 8) * Math.PI * 2)]);
+
+const star = (cx: number, cy: number, outer: number, inner: number): Point[] =>
+  Array.from({ length: 11 }, (_, i) => {
+    const r = i % 2 === 0 ? outer : inner;
+    const a = ((-90 + i * 36) * Math.PI) / 180;
+    return [cx + r * Math.cos(a), cy + r * Math.sin(a)];
+  });
+
+const wheels = (y: number, ...xs: number[]) => xs.map((x) => circle(x, y, 0.08));
+const cloud = (y: number): Sketch => [arc(0.35, y, 0.13, 0.11, 90, 270), arc(0.5, y - 0.08, 0.16, 0.14, 180, 360), arc(0.65, y, 0.13, 0.11, 270, 450), line(0.35, y + 0.11, 0.65, y + 0.11)];
+const house = (): Sketch => [rect(0.25, 0.45, 0.5, 0.4), line(0.2, 0.47, 0.5, 0.18, 0.8, 0.47), rect(0.44, 0.63, 0.12, 0.22)];
+const building = (): Sketch => [rect(0.25, 0.25, 0.5, 0.6), rect(0.44, 0.7, 0.12, 0.15), ...[0.32, 0.45, 0.58].flatMap((x) => [rect(x, 0.33, 0.08, 0.08), rect(x, 0.5, 0.08, 0.08)])];
+const medical = (): Sketch => [...building(), line(0.5, 0.08, 0.5, 0.22), line(0.43, 0.15, 0.57, 0.15)];
+const quadruped = (): Sketch => [
+  arc(0.5, 0.5, 0.22, 0.12),
+  circle(0.78, 0.32, 0.08),
+  line(0.7, 0.42, 0.72, 0.38),
+  line(0.35, 0.58, 0.35, 0.8),
+  line(0.45, 0.6, 0.45, 0.8),
+  line(0.58, 0.6, 0.58, 0.8),
+  line(0.66, 0.58, 0.66, 0.8),
+  line(0.28, 0.46, 0.16, 0.36)
+];
+
+const SKETCHES: Record<string, () => Sketch> = {
+  sun: () => [circle(0.5, 0.5, 0.18), ...Array.from({ length: 8 }, (_, i) => {
+    const a = (i * Math.PI) / 4;
+    return line(0.5 + 0.25 * Math.cos(a), 0.5 + 0.25 * Math.sin(a), 0.5 + 0.38 * Math.cos(a), 0.5 + 0.38 * Math.sin(a));
+  })],
+  moon: () => [arc(0.5, 0.5, 0.3, 0.3, 60, 300), arc(0.62, 0.5, 0.22, 0.26, 250, 110)],
+  star: () => [star(0.5, 0.5, 0.38, 0.16)],
+  comet: () => [circle(0.65, 0.35, 0.1), line(0.57, 0.42, 0.2, 0.75), line(0.6, 0.44, 0.3, 0.8), line(0.55, 0.39, 0.15, 0.65)],
+  planet: () => [circle(0.5, 0.5, 0.2), arc(0.5, 0.5, 0.38, 0.08)],
+  cloud: () => cloud(0.5),
+  rain: () => [...cloud(0.35), ...[0.35, 0.45, 0.55, 0.65].map((x) => line(x, 0.55, x - 0.04, 0.68))],
+  snow: () => [...cloud(0.35), ...[0.35, 0.5, 0.65].flatMap((x) => [line(x - 0.03, 0.6, x + 0.03, 0.66), line(x + 0.03, 0.6, x - 0.03, 0.66)])],
+  fog: () => [wave(0.15, 0.85, 0.35, 0.03), wave(0.1, 0.8, 0.5, 0.03), wave(0.2, 0.9, 0.65, 0.03)],
+  tree: () => [rect(0.45, 0.6, 0.1, 0.3), circle(0.5, 0.4, 0.24)],
+  palm: () => [line(0.5, 0.9, 0.48, 0.6, 0.5, 0.35), arc(0.35, 0.38, 0.15, 0.1, 200, 340), arc(0.65, 0.38, 0.15, 0.1, 200, 340), arc(0.5, 0.3, 0.12, 0.12, 180, 360)],
+  flower: () => [line(0.5, 0.45, 0.5, 0.9), arc(0.42, 0.7, 0.08, 0.04), circle(0.5, 0.35, 0.06), ...[0, 72, 144, 216, 288].map((d) => circle(0.5 + 0.13 * Math.cos((d * Math.PI) / 180), 0.35 + 0.13 * Math.sin((d * Math.PI) / 180), 0.07))],
+  mountain: () => [line(0.1, 0.85, 0.38, 0.3, 0.55, 0.6, 0.7, 0.4, 0.9, 0.85, 0.1, 0.85), line(0.31, 0.44, 0.38, 0.4, 0.45, 0.44)],
+  volcano: () => [line(0.15, 0.85, 0.4, 0.35, 0.6, 0.35, 0.85, 0.85, 0.15, 0.85), line(0.45, 0.3, 0.4, 0.15), line(0.5, 0.3, 0.52, 0.1), line(0.55, 0.3, 0.62, 0.15)],
+  water: () => [wave(0.1, 0.9, 0.4, 0.04), wave(0.1, 0.9, 0.55, 0.04), wave(0.1, 0.9, 0.7, 0.04)],
+  lake: () => [arc(0.5, 0.6, 0.35, 0.15), wave(0.3, 0.7, 0.6, 0.02, 2)],
+  beach: () => [circle(0.78, 0.22, 0.08), wave(0.05, 0.95, 0.55, 0.03), line(0.05, 0.75, 0.95, 0.7)],
+  desert: () => [circle(0.75, 0.25, 0.08), arc(0.3, 0.8, 0.25, 0.15, 180, 360), arc(0.7, 0.85, 0.25, 0.12, 180, 360), line(0.5, 0.65, 0.5, 0.45), line(0.5, 0.55, 0.44, 0.5, 0.44, 0.45)],
+  island: () => [arc(0.5, 0.75, 0.3, 0.1, 180, 360), wave(0.05, 0.95, 0.78, 0.02), line(0.5, 0.66, 0.48, 0.35), arc(0.4, 0.36, 0.1, 0.06, 200, 340), arc(0.58, 0.36, 0.1, 0.06, 200, 340)],
+  house,
+  building,
+  medical,
+  church: () => [...house(), rect(0.62, 0.2, 0.1, 0.3), line(0.67, 0.05, 0.67, 0.2), line(0.63, 0.1, 0.71, 0.1)],
+  castle: () => [rect(0.2, 0.4, 0.6, 0.45), line(0.2, 0.4, 0.2, 0.32, 0.3, 0.32, 0.3, 0.4, 0.4, 0.4, 0.4, 0.32, 0.5, 0.32, 0.5, 0.4, 0.6, 0.4, 0.6, 0.32, 0.7, 0.32, 0.7, 0.4, 0.8, 0.4, 0.8, 0.32), arc(0.5, 0.85, 0.08, 0.12, 180, 360)],
+  farm: () => [...house(), line(0.05, 0.8, 0.2, 0.8), line(0.8, 0.8, 0.95, 0.8), line(0.1, 0.72, 0.1, 0.88), line(0.88, 0.72, 0.88, 0.88)],
+  zoo: () => [...[0.2, 0.35, 0.5, 0.65, 0.8].map((x) => line(x, 0.35, x, 0.85)), line(0.15, 0.45, 0.85, 0.45), line(0.15, 0.75, 0.85, 0.75)],
+  bridge: () => [line(0.05, 0.5, 0.95, 0.5), arc(0.5, 0.85, 0.3, 0.3, 180, 360), wave(0.05, 0.95, 0.9, 0.02)],
+  tunnel: () => [line(0.1, 0.85, 0.1, 0.5), arc(0.5, 0.5, 0.4, 0.35, 180, 360), line(0.9, 0.5, 0.9, 0.85), arc(0.5, 0.85, 0.2, 0.25, 180, 360)],
+  tent: () => [line(0.15, 0.8, 0.5, 0.25, 0.85, 0.8, 0.15, 0.8), line(0.5, 0.25, 0.5, 0.8)],
+  pyramid: () => [line(0.1, 0.8, 0.5, 0.2, 0.9, 0.8, 0.1, 0.8), line(0.3, 0.5, 0.7, 0.5), line(0.2, 0.65, 0.8, 0.65)],
+  car: () => [line(0.12, 0.65, 0.12, 0.5, 0.3, 0.48, 0.38, 0.35, 0.62, 0.35, 0.72, 0.48, 0.88, 0.5, 0.88, 0.65, 0.12, 0.65), ...wheels(0.67, 0.3, 0.7)],
+  bus: () => [rect(0.08, 0.3, 0.84, 0.35), ...[0.15, 0.32, 0.49, 0.66].map((x) => rect(x, 0.36, 0.12, 0.1)), ...wheels(0.67, 0.25, 0.75)],
+  truck: () => [rect(0.08, 0.3, 0.55, 0.35), line(0.63, 0.65, 0.63, 0.42, 0.8, 0.42, 0.9, 0.52, 0.9, 0.65, 0.63, 0.65), ...wheels(0.67, 0.22, 0.75)],
+  train: () => [rect(0.1, 0.35, 0.35, 0.3), rect(0.5, 0.35, 0.35, 0.3), line(0.45, 0.5, 0.5, 0.5), ...wheels(0.68, 0.18, 0.37, 0.58, 0.77), line(0.05, 0.77, 0.95, 0.77)],
+  bicycle: () => [circle(0.27, 0.62, 0.15), circle(0.73, 0.62, 0.15), line(0.27, 0.62, 0.45, 0.4, 0.63, 0.4, 0.73, 0.62), line(0.45, 0.4, 0.5, 0.62, 0.63, 0.4), line(0.62, 0.4, 0.6, 0.3, 0.68, 0.3)],
+  tractor: () => [rect(0.2, 0.35, 0.3, 0.25), line(0.5, 0.6, 0.5, 0.45, 0.8, 0.45, 0.8, 0.6), circle(0.32, 0.65, 0.15), circle(0.72, 0.68, 0.08)],
+  plane: () => [line(0.1, 0.5, 0.8, 0.45, 0.92, 0.5, 0.8, 0.55, 0.1, 0.5), line(0.45, 0.48, 0.35, 0.2, 0.5, 0.48), line(0.45, 0.53, 0.35, 0.8, 0.5, 0.53), line(0.15, 0.5, 0.1, 0.35, 0.2, 0.49)],
+  helicopter: () => [arc(0.45, 0.55, 0.2, 0.13), line(0.65, 0.55, 0.9, 0.5, 0.9, 0.42), line(0.45, 0.42, 0.45, 0.32), line(0.15, 0.32, 0.75, 0.32), line(0.3, 0.75, 0.6, 0.75)],
+  ship: () => [line(0.1, 0.6, 0.9, 0.6, 0.78, 0.78, 0.22, 0.78, 0.1, 0.6), line(0.5, 0.6, 0.5, 0.15), line(0.5, 0.18, 0.78, 0.52, 0.5, 0.52), wave(0.05, 0.95, 0.85, 0.02)],
+  submarine: () => [arc(0.5, 0.6, 0.35, 0.14), rect(0.42, 0.36, 0.14, 0.1), line(0.5, 0.36, 0.5, 0.26, 0.56, 0.26), circle(0.35, 0.6, 0.04), circle(0.5, 0.6, 0.04), circle(0.65, 0.6, 0.04)],
+  rocket: () => [line(0.5, 0.1, 0.62, 0.3, 0.62, 0.7, 0.38, 0.7, 0.38, 0.3, 0.5, 0.1), line(0.38, 0.55, 0.28, 0.78, 0.38, 0.7), line(0.62, 0.55, 0.72, 0.78, 0.62, 0.7), circle(0.5, 0.4, 0.05), line(0.45, 0.72, 0.5, 0.88, 0.55, 0.72)],
+  cat: () => [circle(0.5, 0.55, 0.25), line(0.3, 0.42, 0.3, 0.15, 0.45, 0.32), line(0.55, 0.32, 0.7, 0.15, 0.7, 0.42), circle(0.42, 0.5, 0.03), circle(0.58, 0.5, 0.03), line(0.47, 0.6, 0.5, 0.63, 0.53, 0.6), line(0.4, 0.63, 0.15, 0.6), line(0.4, 0.66, 0.15, 0.7), line(0.6, 0.63, 0.85, 0.6), line(0.6, 0.66, 0.85, 0.7)],
+  dog: () => [circle(0.5, 0.5, 0.22), arc(0.26, 0.5, 0.07, 0.18), arc(0.74, 0.5, 0.07, 0.18), circle(0.42, 0.45, 0.03), circle(0.58, 0.45, 0.03), circle(0.5, 0.58, 0.04), line(0.44, 0.66, 0.5, 0.69, 0.56, 0.66)],
+  quadruped,
+  mouse: () => [arc(0.5, 0.6, 0.25, 0.15), circle(0.3, 0.42, 0.08), circle(0.45, 0.4, 0.08), circle(0.3, 0.55, 0.02), line(0.75, 0.6, 0.85, 0.5, 0.95, 0.6)],
+  fish: () => [arc(0.45, 0.5, 0.3, 0.15), line(0.75, 0.5, 0.92, 0.35, 0.92, 0.65, 0.75, 0.5), line(0.4, 0.36, 0.5, 0.2, 0.58, 0.37), circle(0.25, 0.47, 0.03)],
+  bird: () => [arc(0.5, 0.6, 0.25, 0.15), circle(0.28, 0.38, 0.09), line(0.19, 0.38, 0.08, 0.41, 0.19, 0.43), circle(0.27, 0.36, 0.02), arc(0.55, 0.55, 0.12, 0.06, 180, 360)],
+  bee: () => [arc(0.5, 0.55, 0.22, 0.13), line(0.45, 0.43, 0.45, 0.67), line(0.55, 0.43, 0.55, 0.67), circle(0.42, 0.32, 0.1), circle(0.6, 0.32, 0.1), line(0.72, 0.55, 0.8, 0.55)],
+  apple: () => [circle(0.5, 0.55, 0.27), line(0.5, 0.3, 0.53, 0.15), arc(0.6, 0.2, 0.07, 0.04)],
+  pear: () => [circle(0.5, 0.65, 0.2), circle(0.5, 0.38, 0.12), line(0.5, 0.26, 0.52, 0.14)],
+  cherry: () => [circle(0.35, 0.7, 0.12), circle(0.65, 0.7, 0.12), line(0.35, 0.58, 0.5, 0.2, 0.65, 0.58), arc(0.56, 0.22, 0.07, 0.04)],
+  banana: () => [arc(0.5, 0.3, 0.35, 0.4, 20, 160), arc(0.5, 0.3, 0.3, 0.3, 20, 160)],
+  cucumber: () => [arc(0.5, 0.5, 0.38, 0.1), circle(0.35, 0.48, 0.01), circle(0.5, 0.53, 0.01), circle(0.65, 0.47, 0.01)],
+  bread: () => [arc(0.5, 0.6, 0.35, 0.25, 180, 360), line(0.15, 0.6, 0.85, 0.6), line(0.35, 0.45, 0.4, 0.38), line(0.5, 0.42, 0.55, 0.35), line(0.65, 0.45, 0.7, 0.38)],
+  bagel: () => [arc(0.5, 0.55, 0.32, 0.22), arc(0.5, 0.55, 0.1, 0.07)],
+  cake: () => [rect(0.2, 0.5, 0.6, 0.3), line(0.2, 0.62, 0.8, 0.62), line(0.5, 0.5, 0.5, 0.35), arc(0.5, 0.3, 0.03, 0.05)],
+  pizza: () => [line(0.2, 0.2, 0.8, 0.2, 0.5, 0.85, 0.2, 0.2), circle(0.4, 0.32, 0.05), circle(0.58, 0.35, 0.05), circle(0.5, 0.55, 0.05)],
+  icecream: () => [line(0.35, 0.45, 0.5, 0.88, 0.65, 0.45), circle(0.5, 0.35, 0.16), line(0.42, 0.55, 0.58, 0.55)],
+  cup: () => [line(0.28, 0.3, 0.32, 0.8, 0.62, 0.8, 0.66, 0.3), arc(0.7, 0.5, 0.1, 0.12, 270, 450)],
+  glass: () => [line(0.3, 0.2, 0.38, 0.82, 0.62, 0.82, 0.7, 0.2), wave(0.33, 0.67, 0.4, 0.01, 2)],
+  bottle: () => [line(0.44, 0.12, 0.44, 0.3, 0.35, 0.42, 0.35, 0.88, 0.65, 0.88, 0.65, 0.42, 0.56, 0.3, 0.56, 0.12, 0.44, 0.12)],
+  mushroom: () => [arc(0.5, 0.5, 0.32, 0.25, 180, 360), line(0.18, 0.5, 0.82, 0.5), rect(0.42, 0.5, 0.16, 0.3), circle(0.38, 0.38, 0.04), circle(0.6, 0.35, 0.04)],
+  chair: () => [line(0.3, 0.15, 0.3, 0.85), line(0.3, 0.55, 0.7, 0.55, 0.7, 0.85), line(0.3, 0.15, 0.4, 0.15, 0.4, 0.55)],
+  stool: () => [arc(0.5, 0.35, 0.2, 0.06), line(0.35, 0.38, 0.3, 0.85), line(0.65, 0.38, 0.7, 0.85), line(0.33, 0.65, 0.67, 0.65)],
+  sofa: () => [rect(0.15, 0.35, 0.7, 0.3), rect(0.08, 0.45, 0.1, 0.3), rect(0.82, 0.45, 0.1, 0.3), line(0.18, 0.75, 0.82, 0.75), line(0.5, 0.5, 0.5, 0.65)],
+  table: () => [line(0.1, 0.4, 0.9, 0.4), line(0.15, 0.4, 0.15, 0.85), line(0.85, 0.4, 0.85, 0.85)],
+  desk: () => [line(0.1, 0.4, 0.9, 0.4), line(0.15, 0.4, 0.15, 0.85), rect(0.6, 0.4, 0.25, 0.45), line(0.6, 0.6, 0.85, 0.6), rect(0.3, 0.15, 0.22, 0.18)],
+  bed: () => [rect(0.1, 0.45, 0.8, 0.2), line(0.1, 0.3, 0.1, 0.8), line(0.9, 0.45, 0.9, 0.8), arc(0.22, 0.4, 0.08, 0.05)],
+  lamp: () => [line(0.35, 0.15, 0.65, 0.15, 0.75, 0.4, 0.25, 0.4, 0.35, 0.15), line(0.5, 0.4, 0.5, 0.82), line(0.35, 0.85, 0.65, 0.85)],
+  candle: () => [rect(0.42, 0.4, 0.16, 0.45), line(0.5, 0.4, 0.5, 0.33), line(0.5, 0.2, 0.45, 0.3, 0.5, 0.34, 0.55, 0.3, 0.5, 0.2)],
+  door: () => [rect(0.32, 0.12, 0.36, 0.76), circle(0.61, 0.52, 0.025)],
+  window: () => [rect(0.25, 0.2, 0.5, 0.55), line(0.5, 0.2, 0.5, 0.75), line(0.25, 0.47, 0.75, 0.47)],
+  fork: () => [line(0.5, 0.45, 0.5, 0.9), line(0.38, 0.1, 0.38, 0.4, 0.62, 0.4, 0.62, 0.1), line(0.46, 0.1, 0.46, 0.4), line(0.54, 0.1, 0.54, 0.4)],
+  spoon: () => [arc(0.5, 0.28, 0.1, 0.15), line(0.5, 0.43, 0.5, 0.9)],
+  clock: () => [circle(0.5, 0.5, 0.32), line(0.5, 0.5, 0.5, 0.28), line(0.5, 0.5, 0.64, 0.56)],
+  compass: () => [circle(0.5, 0.5, 0.32), line(0.5, 0.22, 0.56, 0.5, 0.5, 0.78, 0.44, 0.5, 0.5, 0.22)],
+  phone: () => [rect(0.35, 0.12, 0.3, 0.76), rect(0.39, 0.18, 0.22, 0.4), circle(0.5, 0.75, 0.04)],
+  microphone: () => [arc(0.5, 0.3, 0.1, 0.14), line(0.5, 0.44, 0.5, 0.8), line(0.38, 0.82, 0.62, 0.82), arc(0.5, 0.35, 0.16, 0.18, 0, 180)],
+  glasses: () => [circle(0.32, 0.5, 0.13), circle(0.68, 0.5, 0.13), line(0.45, 0.48, 0.55, 0.48), line(0.19, 0.47, 0.08, 0.4), line(0.81, 0.47, 0.92, 0.4)],
+  binoculars: () => [circle(0.33, 0.62, 0.15), circle(0.67, 0.62, 0.15), rect(0.26, 0.2, 0.14, 0.3), rect(0.6, 0.2, 0.14, 0.3), line(0.4, 0.35, 0.6, 0.35)],
+  vase: () => [line(0.42, 0.15, 0.4, 0.3, 0.3, 0.55, 0.38, 0.85, 0.62, 0.85, 0.7, 0.55, 0.6, 0.3, 0.58, 0.15)],
+  anchor: () => [circle(0.5, 0.18, 0.06), line(0.5, 0.24, 0.5, 0.85), line(0.35, 0.35, 0.65, 0.35), arc(0.5, 0.6, 0.28, 0.25, 0, 180)],
+  scooter: () => [circle(0.25, 0.75, 0.08), circle(0.75, 0.75, 0.08), line(0.25, 0.75, 0.3, 0.68, 0.75, 0.68), line(0.3, 0.68, 0.22, 0.2, 0.32, 0.2)]
+};
+
+// German and English words of the bundled packs; anything else gets a scribble.
+const WORD_SKETCHES: Record<string, string> = {
+  sonne: "sun", sun: "sun", mond: "moon", moon: "moon", stern: "star", star: "star", komet: "comet", planet: "planet",
+  wolke: "cloud", rain: "rain", snow: "snow", nebel: "fog",
+  baum: "tree", tree: "tree", bush: "tree", palme: "palm", blume: "flower", flower: "flower",
+  berg: "mountain", mountain: "mountain", vulkan: "volcano", volcano: "volcano", river: "water", lake: "lake",
+  strand: "beach", beach: "beach", desert: "desert", insel: "island",
+  haus: "house", farm: "farm", schule: "building", school: "building", university: "building", airport: "building", trainstation: "building",
+  hospital: "medical", pharmacy: "medical", kirche: "church", burg: "castle", castle: "castle", palace: "castle", zoo: "zoo",
+  brucke: "bridge", tunnel: "tunnel", zelt: "tent", pyramide: "pyramid",
+  auto: "car", car: "car", taxi: "car", bus: "bus", truck: "truck", zug: "train", train: "train", strassenbahn: "train", tram: "train",
+  fahrrad: "bicycle", bicycle: "bicycle", motorbike: "bicycle", roller: "scooter", traktor: "tractor",
+  flugzeug: "plane", plane: "plane", hubschrauber: "helicopter", helicopter: "helicopter", boot: "ship", ship: "ship", submarine: "submarine", rakete: "rocket",
+  katze: "cat", cat: "cat", tiger: "cat", hund: "dog", dog: "dog", wolf: "quadruped", pferd: "quadruped", horse: "quadruped", esel: "quadruped", donkey: "quadruped",
+  maus: "mouse", mouse: "mouse", ratte: "mouse", rat: "mouse", hai: "fish", shark: "fish", delfin: "fish", dolphin: "fish",
+  ente: "bird", duck: "bird", gans: "bird", goose: "bird", biene: "bee", bee: "bee", wespe: "bee", wasp: "bee",
+  apfel: "apple", apple: "apple", tomate: "apple", tomato: "apple", birne: "pear", pear: "pear", kirsche: "cherry", cherry: "cherry",
+  banane: "banana", banana: "banana", gurke: "cucumber", cucumber: "cucumber",
+  brot: "bread", bread: "bread", brotchen: "bread", bagel: "bagel", kuchen: "cake", cake: "cake", pizza: "pizza", eis: "icecream", icecream: "icecream",
+  joghurt: "cup", yogurt: "cup", cup: "cup", glass: "glass", flasche: "bottle", vase: "vase", pilz: "mushroom", mushroom: "mushroom",
+  stuhl: "chair", chair: "chair", stool: "stool", sessel: "sofa", sofa: "sofa", tisch: "table", schreibtisch: "desk", bed: "bed",
+  lampe: "lamp", lamp: "lamp", kerze: "candle", candle: "candle", tur: "door", door: "door", fenster: "window", window: "window",
+  fork: "fork", spoon: "spoon", uhr: "clock", kompass: "compass", telefon: "phone", mikrofon: "microphone",
+  brille: "glasses", fernglas: "binoculars", anker: "anchor"
+};
+
+export function sketchFor(word: string): Sketch | null {
+  const key = WORD_SKETCHES[normalizeWord(word)];
+  return key ? SKETCHES[key]() : null;
+}
+
+// A loose zigzag for words without a sketch.
+export function scribble(random: () => number): Sketch {
+  return Array.from({ length: 3 }, () =>
+    Array.from({ length: 6 }, (): Point => [0.15 + random() * 0.7, 0.15 + random() * 0.7])
+  );
+}
@@ -0,0 +1,131 @@
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ScoreBreakdown } from "./scoring.js";
+import type { GameMode } from "./settings.js";
+import type { Player, PlayerProfile, RoomState, TimelineEvent, VoteRecord } from "./types.js";
+
+// Rooms written by older versions lack the newer fields and may still carry removed ones
+// (win/loss counts from before points).
+type NewerFields = "seed" | "scores" | "pausedTimeLeft" | "category" | "webhooks";
+export type StoredPlayer = Player & { wins?: number; losses?: number };
+export type StoredRoom = Omit<RoomState, NewerFields | "players" | "spectators"> &
+  Partial<Pick<RoomState, NewerFields>> & { players: StoredPlayer[]; spectators: StoredPlayer[]; leaderboard?: unknown };
+
+export type RoundSummary = {
+  code: string;
+  round: number;
+  finishedAt: number;
+  players: { id: string; name: string }[];
+  imposterIds: string[];
+  realWord: string | null;
+  fakeWord: string | null;
+  // missing for rounds played before there were game modes
+  mode?: GameMode;
+  category?: string | null;
+  imposterWins: boolean;
+  eliminated: string[];
+  voteHistory: VoteRecord[];
+  points: Record<string, ScoreBreakdown>;
+  // the match's seed, published with the round that ends the match so it can be replayed;
+  // missing for every other round
+  seed?: number | null;
+};
+
+export type RoundTimeline = {
+  code: string;
+  round: number;
+  players: { id: string; name: string }[];
+  events: TimelineEvent[];
+};
+
+export interface Storage {
+  loadRooms(): StoredRoom[];
+  saveRoom(room: RoomState): Promise<void>;
+  deleteRoom(code: string): Promise<void>;
+  appendRound(summary: RoundSummary): Promise<void>;
+  listRounds(code: string): Promise<RoundSummary[]>;
+  saveTimeline(timeline: RoundTimeline): Promise<void>;
+  loadTimeline(code: string, round: number): Promise<RoundTimeline | null>;
+  loadProfiles(): PlayerProfile[];
+  saveProfile(profile: PlayerProfile): Promise<void>;
+}
+
+function readJsonDir<T>(dir: string): T[] {
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .flatMap((f) => {
+      try {
+        return [JSON.parse(readFileSync(join(dir, f), "utf8")) as T];
+      } catch (err) {
+        console.warn(`Skipping unreadable file ${join(dir, f)}:`, err);
+        return [];
+      }
+    });
+}
+
+// write to a temp file first so a crash mid-write never leaves a truncated file
+async function writeJsonAtomic(file: string, data: unknown) {
+  await writeFile(`${file}.tmp`, JSON.stringify(data));
+  await rename(`${file}.tmp`, file);
+}
+
+// One JSON file per room, per player profile and per round timeline, plus an
+// append-only JSONL file of finished rounds per room.
+export function createFileStorage(dir: string): Storage {
+  const roomsDir = join(dir, "rooms");
+  const roundsDir = join(dir, "rounds");
+  const profilesDir = join(dir, "profiles");
+  const timelinesDir = join(dir, "timelines");
+  mkdirSync(roomsDir, { recursive: true });
+  mkdirSync(timelinesDir, { recursive: true });
+  mkdirSync(roundsDir, { recursive: true });
+  mkdirSync(profilesDir, { recursive: true });
+
+  return {
+    loadRooms() {
+      return readJsonDir<StoredRoom>(roomsDir);
+    },
+
+    async saveRoom(room) {
+      await writeJsonAtomic(join(roomsDir, `${room.code}.json`), room);
+    },
+
+    async deleteRoom(code) {
+      await rm(join(roomsDir, `${code}.json`), { force: true });
+    },
+
+    async appendRound(summary) {
+      await mkdir(roundsDir, { recursive: true });
+      await appendFile(join(roundsDir, `${summary.code}.jsonl`), `${JSON.stringify(summary)}\n`);
+    },
+
+    async listRounds(code) {
+      const file = join(roundsDir, `${code}.jsonl`);
+      if (!existsSync(file)) return [];
+      const lines = (await readFile(file, "utf8")).split("\n").filter(Boolean);
+      return lines.map((line) => JSON.parse(line) as RoundSummary);
+    },
+
+    async saveTimeline(timeline) {
+      await writeJsonAtomic(join(timelinesDir, `${timeline.code}-${timeline.round}.json`), timeline);
+    },
+
+    async loadTimeline(code, round) {
+      const file = join(timelinesDir, `${code}-${round}.json`);
+      if (!existsSync(file)) return null;
+      return JSON.parse(await readFile(file, "utf8")) as RoundTimeline;
+    },
+
+    loadProfiles() {
+      return readJsonDir<PlayerProfile>(profilesDir);
+    },
+
+    async saveProfile(profile) {
+      await writeJsonAtomic(join(profilesDir, `${profile.id}.json`), profile);
+    }
+  };
+}
+
+export const DATA_DIR = process.env.DATA_DIR || fileURLToPath(new URL("../data/", import.meta.url));
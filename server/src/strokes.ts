@@ -0,0 +1,57 @@
+import type { DrawEvent } from "./types.js";
+
+// Wire coordinates are integers 0..COORD_SCALE instead of 0..1 floats.
+export const COORD_SCALE = 10_000;
+export const MAX_BATCH_POINTS = 128;
+
+// One flush of a pointer gesture: style once, then a flat [x, y, x, y, ...] polyline.
+// A batch repeats the last point of the previous one, so each batch draws on its own.
+export type StrokeBatch = {
+  id: string;
+  color: string;
+  size: number;
+  tool: DrawEvent["tool"];
+  points: number[];
+};
+
+export function expandBatch(batch: StrokeBatch): DrawEvent[] {
+  const { id, color, size, tool, points } = batch;
+  const segments: DrawEvent[] = [];
+  for (let i = 2; i + 1 < points.length; i += 2) {
+    segments.push({
+      strokeId: id,
+      x0: points[i - 2] / COORD_SCALE,
+      y0: points[i - 1] / COORD_SCALE,
+      x1: points[i] / COORD_SCALE,
+      y1: points[i + 1] / COORD_SCALE,
+      color,
+      size,
+      tool
+    });
+  }
+  return segments;
+}
+
+// Packs stored segments back into batches, joining consecutive segments of a stroke
+// that continue where the previous one ended. Used for full drawings sent to late joiners.
+export function encodeStrokes(strokes: DrawEvent[]): StrokeBatch[] {
+  const batches: StrokeBatch[] = [];
+  let current: StrokeBatch | null = null;
+
+  for (const s of strokes) {
+    const x0 = Math.round(s.x0 * COORD_SCALE);
+    const y0 = Math.round(s.y0 * COORD_SCALE);
+    const x1 = Math.round(s.x1 * COORD_SCALE);
+    const y1 = Math.round(s.y1 * COORD_SCALE);
+    const points: number[] = current?.points ?? [];
+    const sameStyle = current?.id === s.strokeId && current.color === s.color && current.size === s.size && current.tool === s.tool;
+
+    if (sameStyle && points[points.length - 2] === x0 && points[points.length - 1] === y0) {
+      points.push(x1, y1);
+    } else {
+      current = { id: s.strokeId, color: s.color, size: s.size, tool: s.tool, points: [x0, y0, x1, y1] };
+      batches.push(current);
+    }
+  }
+  return batches;
+}
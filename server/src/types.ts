@@ -0,0 +1,168 @@
+import type { RoundScore } from "./scoring.js";
+import type { RoomSettings } from "./settings.js";
+
+export type Phase = "lobby" | "drawing" | "discussion" | "voting" | "lastChance" | "results";
+
+// Coordinates are normalized to 0..1 of the shared 4:3 canvas, size is a fraction of its width.
+// All segments of one pointer gesture share a strokeId.
+export type DrawEvent = {
+  strokeId: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  color: string;
+  size: number;
+  tool: "brush" | "eraser";
+};
+
+export type Player = {
+  id: string;
+  // public id of the player's persistent profile, if the client sent a profile key
+  profileId: string | null;
+  name: string;
+  isHost: boolean;
+  connected: boolean;
+  // played by the server, see bots.ts
+  bot?: boolean;
+};
+
+export type SystemMessageKey =
+  | "playerJoined"
+  | "spectatorJoined"
+  | "playerSeated"
+  | "playerLeft"
+  | "playerKicked"
+  | "playerBanned"
+  | "hostChanged"
+  | "roomLocked"
+  | "roomUnlocked"
+  | "passwordSet"
+  | "passwordRemoved"
+  | "roomPublic"
+  | "roomPrivate"
+  | "languageChanged"
+  | "turnStarted"
+  | "discussionStarted"
+  | "votingStarted"
+  | "runoffStarted"
+  | "voteCast"
+  | "crewWins"
+  | "impostersWin"
+  | "matchWon"
+  | "timerPaused"
+  | "timerResumed";
+
+export type ChatMessage = {
+  // null for announcements from the server
+  playerId: string | null;
+  name: string;
+  message: string;
+  ts: number;
+  // announcements carry a key and parameters instead of text, so clients can translate them
+  system?: { key: SystemMessageKey; params?: Record<string, string | number> };
+};
+
+// Where the room's events are posted; the secret signs every delivery and only the host sees it.
+export type WebhookConfig = { urls: string[]; secret: string };
+
+export type RoomState = {
+  code: string;
+  players: Player[];
+  // watchers: they see the canvas, chat and results but get no word, turn or vote
+  spectators: Player[];
+  phase: Phase;
+  hostId: string;
+  settings: RoomSettings;
+  // drawer ids for the current round, one entry per turn across all laps
+  turnOrder: string[];
+  turnIndex: number;
+  round: number;
+  imposterIds: string[];
+  // players voted out this round, in order
+  eliminated: string[];
+  realWord: string | null;
+  // null when the room's game mode gives the imposters no word of their own
+  fakeWord: string | null;
+  category: string | null;
+  packIds: string[];
+  // real words already played, so pairs don't repeat until the packs run out
+  usedWords: string[];
+  currentDrawerId: string | null;
+  drawing: DrawEvent[];
+  // strokes removed by undo, most recent last
+  redoStack: DrawEvent[][];
+  // finished turns: round -> drawer id -> strokes
+  drawings: Record<number, Record<string, DrawEvent[]>>;
+  chat: ChatMessage[];
+  // voter id -> target player id or SKIP_VOTE
+  votes: Record<string, string>;
+  // set during a tie revote: only these players can be voted for
+  voteCandidates: string[] | null;
+  voteHistory: VoteRecord[];
+  // imposter id -> word guesses used this round
+  guessesUsed: Record<string, number>;
+  // voted-out imposter currently taking their last-chance guess
+  lastChanceId: string | null;
+  // points of the rounds played in the current match
+  scores: RoundScore[];
+  turnEndsAt: number | null;
+  // time left on the phase timer while the host has paused it; turnEndsAt is null meanwhile
+  pausedTimeLeft: number | null;
+  // events of the current round, stored per round once it ends
+  timeline: TimelineEvent[];
+  lastActiveAt: number;
+  // session token -> player id, used to reclaim a seat after a dropped connection
+  tokens: Record<string, string>;
+  // closed for new joins; seated players and spectators can still reconnect
+  locked: boolean;
+  // sha256 of room code and password, checked by room:join
+  passwordHash: string | null;
+  // profiles the host banned; their owners can't join again
+  bannedProfileIds: string[];
+  // listed in the public lobby browser under this name
+  isPublic: boolean;
+  name: string;
+  // picks the word packs; only packs in this language can be selected
+  language: string;
+  // seeds the room's random numbers so a game can be replayed exactly; null plays at random
+  seed: number | null;
+  webhooks: WebhookConfig | null;
+};
+
+export type VoteRecord = {
+  votes: Record<string, string>;
+  tally: Record<string, number>;
+  eliminated: string | null;
+  tie: boolean;
+  // false for a tie that was sent to a revote, which doesn't use up an elimination
+  decided: boolean;
+};
+
+export type PlayerProfile = {
+  id: string;
+  name: string;
+  games: number;
+  imposterGames: number;
+  imposterWins: number;
+  crewWins: number;
+  guesses: number;
+  correctGuesses: number;
+  rating: number;
+  updatedAt: number;
+};
+
+export type TimelineEvent = { ts: number } & (
+  | { type: "round"; round: number }
+  | { type: "turn"; drawerId: string }
+  | { type: "stroke"; stroke: DrawEvent }
+  | { type: "undo" | "redo" | "clear" }
+  | { type: "chat"; playerId: string; name: string; message: string }
+  | { type: "phase"; phase: Phase }
+  | { type: "vote"; voterId: string; targetId: string }
+  | { type: "eliminated"; playerId: string | null }
+  | { type: "guess"; playerId: string; guess: string; correct: boolean }
+);
+
+// distributes Omit over the union members so each event keeps its own fields
+export type TimelineInput = TimelineEvent extends infer E ? (E extends TimelineEvent ? Omit<E, "ts"> : never) : never;
@@ -0,0 +1,117 @@
+import type { ErrorParams } from "./errors.js";
+
+// Minimal runtime schemas for socket payloads. Each schema checks an unknown value and
+// returns a typed copy with unknown object keys dropped, or the first issue it found.
+
+// `path` points into the checked value (e.g. "patch.turnSeconds"), `code` says what's wrong and
+// `params` holds the limits, so clients can word the problem themselves like with error codes.
+export type Issue = { path: string; code: IssueCode; params?: ErrorParams };
+export type IssueCode =
+  | "type"
+  | "empty"
+  | "too_short"
+  | "too_long"
+  | "too_small"
+  | "too_large"
+  | "not_integer"
+  | "format"
+  | "not_allowed"
+  | "too_many"
+  | "same_words";
+
+export type Result<T> = { ok: true; value: T } | { ok: false; issue: Issue };
+export type Schema<T> = (value: unknown, path: string) => Result<T>;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+export const issue = (path: string, code: IssueCode, params?: ErrorParams): Issue => ({ path, code, ...(params && { params }) });
+const fail = (path: string, code: IssueCode, params?: ErrorParams): Result<never> => ({ ok: false, issue: issue(path, code, params) });
+
+const descriptions: Record<IssueCode, (params: ErrorParams) => string> = {
+  type: ({ expected }) => `must be ${/^[aeiou]/.test(String(expected)) ? "an" : "a"} ${expected}`,
+  empty: () => "must not be empty",
+  too_short: ({ min }) => `needs at least ${min} characters`,
+  too_long: ({ max }) => `may have at most ${max} characters`,
+  too_small: ({ min }) => `must be at least ${min}`,
+  too_large: ({ max }) => `must be at most ${max}`,
+  not_integer: () => "must be an integer",
+  format: () => "has an invalid format",
+  not_allowed: ({ values }) => `must be one of ${values}`,
+  too_many: ({ max }) => `may have at most ${max} entries`,
+  same_words: () => "has the same word as real and fake"
+};
+
+// English one-liner for logs and the `details` developers read
+export function describeIssue({ path, code, params = {} }: Issue) {
+  return `${path || "payload"} ${descriptions[code](params)}`;
+}
+
+export const v = {
+  string(opts: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+    return (value, path) => {
+      if (typeof value !== "string") return fail(path, "type", { expected: "string" });
+      if (opts.min !== undefined && value.trim().length < opts.min) return fail(path, "too_short", { min: opts.min });
+      if (opts.max !== undefined && value.length > opts.max) return fail(path, "too_long", { max: opts.max });
+      if (opts.pattern && !opts.pattern.test(value)) return fail(path, "format");
+      return ok(value);
+    };
+  },
+
+  number(opts: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return (value, path) => {
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail(path, "type", { expected: "number" });
+      if (opts.integer && !Number.isInteger(value)) return fail(path, "not_integer");
+      if (opts.min !== undefined && value < opts.min) return fail(path, "too_small", { min: opts.min });
+      if (opts.max !== undefined && value > opts.max) return fail(path, "too_large", { max: opts.max });
+      return ok(value);
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return (value, path) => (typeof value === "boolean" ? ok(value) : fail(path, "type", { expected: "boolean" }));
+  },
+
+  literal<T extends string>(...values: T[]): Schema<T> {
+    return (value, path) => (values.includes(value as T) ? ok(value as T) : fail(path, "not_allowed", { values: values.join(", ") }));
+  },
+
+  array<T>(item: Schema<T>, opts: { max?: number } = {}): Schema<T[]> {
+    return (value, path) => {
+      if (!Array.isArray(value)) return fail(path, "type", { expected: "array" });
+      if (opts.max !== undefined && value.length > opts.max) return fail(path, "too_many", { max: opts.max });
+      const out: T[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const r = item(value[i], `${path}[${i}]`);
+        if (!r.ok) return r;
+        out.push(r.value);
+      }
+      return ok(out);
+    };
+  },
+
+  // any plain object, keys kept as-is; for payloads whose values are checked further down
+  record(opts: { maxKeys?: number } = {}): Schema<Record<string, unknown>> {
+    return (value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return fail(path, "type", { expected: "object" });
+      if (opts.maxKeys !== undefined && Object.keys(value).length > opts.maxKeys) return fail(path, "too_many", { max: opts.maxKeys });
+      return ok({ ...(value as Record<string, unknown>) });
+    };
+  },
+
+  optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (value, path) => (value === undefined ? ok(undefined) : schema(value, path));
+  },
+
+  object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return (value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return fail(path, "type", { expected: "object" });
+      const out: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const r = shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (!r.ok) return r;
+        if (r.value !== undefined) out[key] = r.value;
+      }
+      return ok(out as { [K in keyof S]: Infer<S[K]> });
+    };
+  }
+};
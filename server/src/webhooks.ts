@@ -0,0 +1,163 @@
+import { createHmac } from "node:crypto";
+import { lookup, type LookupAddress, type LookupOptions } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { nanoid } from "nanoid";
+import type { WebhookConfig } from "./types.js";
+
+export type WebhookEvent = "round.started" | "voting.started" | "round.results";
+
+export type Delivery = {
+  id: string;
+  event: WebhookEvent;
+  url: string;
+  attempts: number;
+  // HTTP status of the last attempt, null if the receiver couldn't be reached
+  status: number | null;
+  ok: boolean;
+  error?: string;
+  sentAt: number;
+};
+
+export const SIGNATURE_HEADER = "X-Imposter-Signature";
+
+// Receivers recompute this over the raw request body with the room's secret and compare.
+export function signPayload(secret: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+// Only plain http(s) URLs. Where they point is checked on delivery: receivers on private addresses
+// are refused unless WEBHOOK_ALLOW_PRIVATE=1.
+export function isWebhookUrl(url: string) {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges: anyone can
+// host a room, so without this the server could be made to post into its own network.
+const privateRanges = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses ("::ffff:127.0.0.1", also written "::ffff:7f00:1") are checked as IPv4.
+function unmapped(address: string) {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) return dotted[1];
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+export function isPrivateAddress(address: string) {
+  const mapped = unmapped(address);
+  if (mapped) return privateRanges.check(mapped, "ipv4");
+  return privateRanges.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+const blocked = (host: string) => Object.assign(new Error(`${host} is a private address`), { code: "EPRIVATE" });
+
+// Resolves like the default lookup but refuses private addresses. It runs for the connection
+// itself, so a DNS answer can't change between the check and the request.
+const publicLookup = ((hostname: string, options: LookupOptions, callback: (err: Error | null, address?: string | LookupAddress[], family?: number) => void) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    if (addresses.some((a) => isPrivateAddress(a.address))) return callback(blocked(hostname));
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+// One POST without following redirects; resolves with the status code.
+function post(url: string, headers: Record<string, string>, body: string, timeoutMs: number, allowPrivate: boolean) {
+  return new Promise<number>((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (!allowPrivate && isIP(host) && isPrivateAddress(host)) return reject(blocked(host));
+    const client = target.protocol === "https:" ? https : http;
+    const req = client.request(target, { method: "POST", headers, timeout: timeoutMs, ...(!allowPrivate && { lookup: publicLookup }) }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("timeout", () => req.destroy(new Error("timed out")));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Receivers that time out, are unreachable, rate limit or fail with a 5xx get another try.
+const isRetryable = (status: number | null) => status === null || status === 429 || status >= 500;
+
+// Posts room events to the host's webhook URLs. Every URL gets its own delivery, retried after
+// each of `retryDelaysMs`; the last `logSize` deliveries per room are kept for the host to check.
+// Receivers on private addresses are refused unless `allowPrivate` is set.
+export function createWebhooks({
+  retryDelaysMs = [1_000, 5_000, 30_000],
+  timeoutMs = 5_000,
+  logSize = 50,
+  allowPrivate = process.env.WEBHOOK_ALLOW_PRIVATE === "1"
+} = {}) {
+  const logs = new Map<string, Delivery[]>();
+
+  function record(code: string, delivery: Delivery) {
+    const log = logs.get(code) ?? [];
+    log.push(delivery);
+    logs.set(code, log.slice(-logSize));
+  }
+
+  async function deliver(code: string, secret: string, url: string, event: WebhookEvent, data: unknown) {
+    const id = nanoid(12);
+    const sentAt = Date.now();
+    const body = JSON.stringify({ id, event, code, sentAt, data });
+    const delivery: Delivery = { id, event, url, attempts: 0, status: null, ok: false, sentAt };
+    record(code, delivery);
+
+    for (let attempt = 0; attempt <= retryDelaysMs.length; attempt++) {
+      if (attempt > 0) await wait(retryDelaysMs[attempt - 1]);
+      delivery.attempts = attempt + 1;
+      let refused = false;
+      try {
+        const headers = { "Content-Type": "application/json", "X-Imposter-Event": event, "X-Imposter-Delivery": id, [SIGNATURE_HEADER]: signPayload(secret, body) };
+        delivery.status = await post(url, headers, body, timeoutMs, allowPrivate);
+        // redirects are not followed, so they count as failed
+        delivery.ok = delivery.status >= 200 && delivery.status < 300;
+        delete delivery.error;
+      } catch (err) {
+        delivery.status = null;
+        delivery.error = err instanceof Error ? err.message : String(err);
+        refused = (err as { code?: string }).code === "EPRIVATE";
+      }
+      if (delivery.ok || refused || !isRetryable(delivery.status)) break;
+    }
+    return delivery;
+  }
+
+  return {
+    send(code: string, config: WebhookConfig, event: WebhookEvent, data: unknown) {
+      return Promise.all(config.urls.map((url) => deliver(code, config.secret, url, event, data)));
+    },
+
+    // newest first
+    deliveries(code: string) {
+      return [...(logs.get(code) ?? [])].reverse();
+    },
+
+    forget(code: string) {
+      logs.delete(code);
+    }
+  };
+}
@@ -1,20 +1,180 @@
-export const WORDS = [
-  "Tisch", "Katze", "Auto", "Baum", "Haus", "Brot", "Lampe", "Brille", "Fahrrad", "Sonne",
-  "Blume", "Schule", "Uhr", "Telefon", "Berg", "Fenster", "Flasche", "Zug", "Stuhl", "Apfel"
-];
-
-export const FAKE_WORDS = [
-  "Rakete", "Nebel", "Roboter", "Wolke", "Insel", "Pyramide", "Drache", "Magnet", "Stern", "Tiger",
-  "Kompass", "Vulkan", "Palme", "Mikrofon", "Traktor", "Anker", "Planet", "Komet", "Klavier", "Tunnel"
-];
-
-export function pickWordPair() {
-  const realWord = WORDS[Math.floor(Math.random() * WORDS.length)];
-  let fakeWord = FAKE_WORDS[Math.floor(Math.random() * FAKE_WORDS.length)];
-
-  if (fakeWord === realWord) {
-    fakeWord = FAKE_WORDS[(FAKE_WORDS.indexOf(fakeWord) + 1) % FAKE_WORDS.length];
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { DATA_DIR } from "./storage.js";
+import { describeIssue, issue, type Issue } from "./validation.js";
+
+export type WordPair = { real: string; fake: string };
+
+export type WordPack = {
+  id: string;
+  name: string;
+  language: string;
+  categories: { name: string; pairs: WordPair[] }[];
+};
+
+export const DEFAULT_PACK_ID = "standard";
+export const DEFAULT_LANGUAGE = "de";
+
+// packs shipped with the server; uploads go to the data directory and can never replace these
+const PACKS_DIR = process.env.PACKS_DIR || fileURLToPath(new URL("../packs/", import.meta.url));
+const UPLOADED_PACKS_DIR = join(DATA_DIR, "packs");
+const PACK_ID = /^[a-z0-9-]{2,40}$/;
+const MAX_NAME_LENGTH = 60;
+const MAX_WORD_LENGTH = 40;
+
+const packs = new Map<string, WordPack>();
+const builtInPackIds = new Set<string>();
+
+// A checked word as an issue, or null if it's fine
+function checkText(value: unknown, path: string, max: number): Issue | null {
+  if (typeof value !== "string") return issue(path, "type", { expected: "string" });
+  if (!value.trim()) return issue(path, "empty");
+  if (value.length > max) return issue(path, "too_long", { max });
+  return null;
+}
+
+export function validatePack(input: unknown): { pack: WordPack; issues: [] } | { pack: null; issues: Issue[] } {
+  const issues: Issue[] = [];
+  const report = (found: Issue | null) => found && issues.push(found);
+  const data = input as Partial<WordPack> | null;
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) return { pack: null, issues: [issue("", "type", { expected: "object" })] };
+  if (typeof data.id !== "string" || !PACK_ID.test(data.id)) issues.push(issue("id", "format"));
+  report(checkText(data.name, "name", MAX_NAME_LENGTH));
+  if (typeof data.language !== "string" || !/^[a-z]{2}$/.test(data.language)) issues.push(issue("language", "format"));
+  if (!Array.isArray(data.categories)) return { pack: null, issues: [...issues, issue("categories", "type", { expected: "array" })] };
+  if (data.categories.length === 0) return { pack: null, issues: [...issues, issue("categories", "empty")] };
+
+  data.categories.forEach((category, i) => {
+    const path = `categories[${i}]`;
+    report(checkText(category?.name, `${path}.name`, MAX_NAME_LENGTH));
+    if (!Array.isArray(category?.pairs) || category.pairs.length === 0) {
+      issues.push(Array.isArray(category?.pairs) ? issue(`${path}.pairs`, "empty") : issue(`${path}.pairs`, "type", { expected: "array" }));
+      return;
+    }
+    category.pairs.forEach((pair, j) => {
+      const real = checkText(pair?.real, `${path}.pairs[${j}].real`, MAX_WORD_LENGTH);
+      const fake = checkText(pair?.fake, `${path}.pairs[${j}].fake`, MAX_WORD_LENGTH);
+      if (real || fake) [real, fake].forEach(report);
+      else if (pair.real.trim().toLowerCase() === pair.fake.trim().toLowerCase()) issues.push(issue(`${path}.pairs[${j}]`, "same_words"));
+    });
+  });
+
+  if (issues.length > 0) return { pack: null, issues };
+  // only the checked fields, so unknown keys never end up on disk
+  return {
+    pack: {
+      id: data.id!,
+      name: data.name!.trim(),
+      language: data.language!,
+      categories: data.categories.map((category) => ({
+        name: category.name.trim(),
+        pairs: category.pairs.map((pair) => ({ real: pair.real.trim(), fake: pair.fake.trim() }))
+      }))
+    },
+    issues: []
+  };
+}
+
+function readPacks(dir: string) {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .flatMap((file) => {
+      const { pack, issues } = validatePack(JSON.parse(readFileSync(join(dir, file), "utf8")));
+      if (!pack) console.warn(`Skipping word pack ${file}: ${issues.map(describeIssue).join("; ")}`);
+      return pack ? [pack] : [];
+    });
+}
+
+export function loadPacks() {
+  for (const pack of readPacks(PACKS_DIR)) {
+    packs.set(pack.id, pack);
+    builtInPackIds.add(pack.id);
   }
+  for (const pack of readPacks(UPLOADED_PACKS_DIR)) {
+    if (!packs.has(pack.id)) packs.set(pack.id, pack);
+  }
+}
 
-  return { realWord, fakeWord };
+export function listPacks() {
+  return [...packs.values()].map((pack) => ({
+    id: pack.id,
+    name: pack.name,
+    language: pack.language,
+    categories: pack.categories.map((c) => ({ name: c.name, pairs: c.pairs.length }))
+  }));
+}
+
+export function getPack(id: string) {
+  return packs.get(id) ?? null;
+}
+
+// Uploads only add packs: an id that is already taken, built in or uploaded, is refused.
+export function savePack(pack: WordPack) {
+  if (packs.has(pack.id)) return false;
+  mkdirSync(UPLOADED_PACKS_DIR, { recursive: true });
+  writeFileSync(join(UPLOADED_PACKS_DIR, `${pack.id}.json`), JSON.stringify(pack, null, 2));
+  packs.set(pack.id, pack);
+  return true;
+}
+
+export function isBuiltInPack(id: string) {
+  return builtInPackIds.has(id) || id === DEFAULT_PACK_ID || id.startsWith(`${DEFAULT_PACK_ID}-`);
+}
+
+export function deletePack(id: string) {
+  if (isBuiltInPack(id) || !packs.has(id)) return false;
+  unlinkSync(join(UPLOADED_PACKS_DIR, `${id}.json`));
+  packs.delete(id);
+  return true;
+}
+
+export function packLanguages() {
+  return [...new Set([...packs.values()].map((pack) => pack.language))].sort();
+}
+
+// The language's standard pack ("standard" or "standard-<language>") if there is one, else its first pack.
+export function defaultPackFor(language: string) {
+  const candidates = [...packs.values()].filter((pack) => pack.language === language);
+  const preferred = candidates.find((pack) => pack.id === DEFAULT_PACK_ID || pack.id === `${DEFAULT_PACK_ID}-${language}`);
+  return (preferred ?? candidates[0])?.id ?? DEFAULT_PACK_ID;
+}
+
+// Picks a curated real/fake pair from the given packs in the room's language, skipping real
+// words listed in `used`. Once every pair has been played the whole selection is available again.
+export function pickWordPair(packIds: string[], used: string[], language: string, random: () => number) {
+  let selected = packIds.map((id) => packs.get(id)).filter((p): p is WordPack => !!p && p.language === language);
+  if (selected.length === 0) selected = [...packs.values()].filter((p) => p.language === language);
+  if (selected.length === 0) selected = [packs.get(DEFAULT_PACK_ID)!];
+
+  const all = selected.flatMap((pack) => pack.categories.flatMap((c) => c.pairs.map((pair) => ({ ...pair, category: c.name }))));
+  const fresh = all.filter((pair) => !used.includes(pair.real));
+  const pool = fresh.length > 0 ? fresh : all;
+  const pair = pool[Math.floor(random() * pool.length)];
+
+  return { realWord: pair.real, fakeWord: pair.fake, category: pair.category, exhausted: fresh.length === 0 };
+}
+
+// Every word of the named category in the given packs; what a bot imposter guesses from
+// when it only knows the category.
+export function categoryWords(packIds: string[], category: string) {
+  const words = new Set<string>();
+  for (const pack of packIds.map((id) => packs.get(id))) {
+    pack?.categories.filter((c) => c.name === category).forEach((c) => c.pairs.forEach((pair) => [pair.real, pair.fake].forEach((w) => words.add(w))));
+  }
+  return [...words];
+}
+
+// Other words from the categories of the given packs that contain `word`; what a bot
+// imposter considers when it tries to guess the real word from its own.
+export function relatedWords(packIds: string[], word: string) {
+  const related = new Set<string>();
+  for (const pack of packIds.map((id) => packs.get(id))) {
+    pack?.categories
+      .filter((c) => c.pairs.some((pair) => pair.real === word || pair.fake === word))
+      .forEach((c) => c.pairs.forEach((pair) => [pair.real, pair.fake].forEach((w) => w !== word && related.add(w))));
+  }
+  return [...related];
 }
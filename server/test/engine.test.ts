@@ -0,0 +1,320 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { LAST_CHANCE_MS, reduce, SKIP_VOTE, VOTE_LOCK_MS } from "../src/engine.js";
+import { createTable, drawAllTurns, line, type Table } from "./table.js";
+
+// everyone votes for `target`, who votes for the first other player
+function voteOut(table: Table, target: string) {
+  const other = table.room.players.find((p) => p.id !== target && !table.room.eliminated.includes(p.id))!.id;
+  for (const p of table.room.players.filter((p) => !table.room.eliminated.includes(p.id))) {
+    assert.equal(table.send({ type: "vote", playerId: p.id, targetId: p.id === target ? other : target }).ok, true);
+  }
+}
+
+test("a full round: everyone draws, the crew votes out the imposter, who misses the last guess", () => {
+  const table = createTable();
+  assert.equal(table.send({ type: "start", playerId: "Ana" }).ok, true);
+
+  const [imposter] = table.room.imposterIds;
+  assert.equal(table.room.imposterIds.length, 1);
+  for (const id of ["Ana", "Ben", "Cem", "Dia"]) {
+    assert.equal(table.wordOf(id), id === imposter ? table.room.fakeWord : table.room.realWord);
+  }
+
+  const drawers: string[] = [];
+  while (table.room.phase === "drawing") {
+    const drawer = table.room.currentDrawerId!;
+    drawers.push(drawer);
+    table.send({ type: "stroke", playerId: drawer, batch: line(drawer) });
+    table.advance(20_000);
+  }
+  assert.deepEqual(drawers, ["Ana", "Ben", "Cem", "Dia"]);
+  // the drawer already shows their own strokes, everyone else gets them
+  for (const id of drawers) {
+    assert.equal(table.received(id, "draw:points").length, 3);
+  }
+  assert.equal(Object.keys(table.room.drawings[1]).length, 4);
+
+  assert.equal(table.room.phase, "discussion");
+  table.advance(table.room.settings.discussionSeconds * 1000);
+  assert.equal(table.room.phase, "voting");
+  voteOut(table, imposter);
+  // everyone voted, so the deadline moved up to the lock-in window
+  assert.equal(table.room.turnEndsAt, table.now + VOTE_LOCK_MS);
+  table.advance(VOTE_LOCK_MS);
+
+  assert.equal(table.room.phase, "lastChance");
+  assert.equal(table.room.lastChanceId, imposter);
+  const outcome = table.send({ type: "guess", playerId: imposter, guess: "Quxquux" });
+  assert.deepEqual(outcome.ok && outcome.reply, { correct: false, attemptsLeft: 0 });
+
+  assert.equal(table.room.phase, "results");
+  for (const id of ["Ana", "Ben", "Cem", "Dia"]) {
+    const [results] = table.received(id, "phase:results");
+    assert.equal((results.data as { imposterWins: boolean }).imposterWins, false);
+    assert.equal((results.data as { points: Record<string, { correctVotes: number }> }).points[id].correctVotes, id === imposter ? 0 : 2);
+  }
+});
+
+test("a correct guess ends the round and the turn timer that was running no longer fires", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  const [imposter] = table.room.imposterIds;
+  const deadline = table.room.turnEndsAt!;
+
+  table.send({ type: "guess", playerId: imposter, guess: table.room.realWord! });
+  assert.equal(table.room.phase, "results");
+  assert.equal(table.room.turnEndsAt, null);
+
+  const before = table.room;
+  const stale = reduce(before, { type: "timeout", deadline }, { now: deadline + 100, random: Math.random });
+  assert.ok(stale.ok);
+  assert.equal(stale.state, before);
+  assert.deepEqual(stale.events, []);
+
+  table.advance(10 * 60_000);
+  assert.equal(table.room, before);
+  assert.equal(table.received("Ana", "turn:started").length, 1);
+});
+
+test("the drawer can end their turn early and without a discussion voting follows the last turn", () => {
+  const table = createTable({ settings: { discussionSeconds: 0 } });
+  table.send({ type: "start", playerId: "Ana" });
+  assert.deepEqual(table.send({ type: "endTurn", playerId: "Ben" }), { ok: false, error: "NOT_YOUR_TURN" });
+
+  table.send({ type: "stroke", playerId: "Ana", batch: line("a") });
+  table.advance(5_000);
+  table.send({ type: "endTurn", playerId: "Ana" });
+  assert.equal(table.room.currentDrawerId, "Ben");
+  assert.equal(table.room.turnEndsAt, table.now + table.room.settings.turnSeconds * 1000);
+  assert.deepEqual(Object.keys(table.room.drawings[1]), ["Ana"]);
+
+  for (const id of ["Ben", "Cem", "Dia"]) table.send({ type: "endTurn", playerId: id });
+  assert.equal(table.room.phase, "voting");
+});
+
+test("a paused timer stays put until the host resumes it", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  const deadline = table.room.turnEndsAt!;
+  table.advance(5_000);
+
+  assert.deepEqual(table.send({ type: "pause", playerId: "Ben", paused: true }), { ok: false, error: "HOST_ONLY" });
+  table.send({ type: "pause", playerId: "Ana", paused: true });
+  assert.equal(table.room.turnEndsAt, null);
+  const left = deadline - table.now;
+  assert.equal(table.room.pausedTimeLeft, left);
+
+  // the timer that was scheduled before the pause finds nothing to end
+  table.send({ type: "timeout", deadline });
+  table.advance(60_000);
+  assert.equal(table.room.currentDrawerId, "Ana");
+
+  table.send({ type: "pause", playerId: "Ana", paused: false });
+  assert.equal(table.room.turnEndsAt, table.now + left);
+  assert.equal(table.room.pausedTimeLeft, null);
+  table.advance(left);
+  assert.equal(table.room.currentDrawerId, "Ben");
+});
+
+test("a tied vote goes to a runoff among the tied players", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  drawAllTurns(table);
+
+  const votes: Record<string, string> = { Ana: "Ben", Ben: "Ana", Cem: "Ana", Dia: "Ben" };
+  Object.entries(votes).forEach(([playerId, targetId]) => table.send({ type: "vote", playerId, targetId }));
+  table.advance(VOTE_LOCK_MS);
+
+  assert.equal(table.room.phase, "voting");
+  assert.deepEqual([...table.room.voteCandidates!].sort(), ["Ana", "Ben"]);
+  assert.equal(table.received("Cem", "vote:tie").length, 1);
+  assert.equal(table.room.voteHistory[0].decided, false);
+
+  const refused = table.send({ type: "vote", playerId: "Ana", targetId: "Cem" });
+  assert.deepEqual(refused, { ok: false, error: "INVALID_VOTE" });
+});
+
+test("with the imposterWins tie rule a tie ends the round for the imposters", () => {
+  const table = createTable({ settings: { tieRule: "imposterWins" } });
+  table.send({ type: "start", playerId: "Ana" });
+  drawAllTurns(table);
+  const votes: Record<string, string> = { Ana: "Ben", Ben: SKIP_VOTE, Cem: "Ben", Dia: SKIP_VOTE };
+  Object.entries(votes).forEach(([playerId, targetId]) => table.send({ type: "vote", playerId, targetId }));
+  table.advance(VOTE_LOCK_MS);
+
+  assert.equal(table.room.phase, "results");
+  const [results] = table.received("Dia", "phase:results");
+  assert.equal((results.data as { imposterWins: boolean; tie: boolean }).tie, true);
+  assert.equal((results.data as { imposterWins: boolean }).imposterWins, true);
+});
+
+test("voting out a crew member lets the imposters win once the votes are used up", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  drawAllTurns(table);
+  const [suspect] = table.crew();
+  voteOut(table, suspect);
+  table.advance(VOTE_LOCK_MS);
+
+  assert.deepEqual(table.room.eliminated, [suspect]);
+  assert.equal(table.room.phase, "results");
+  assert.equal((table.received("Ana", "phase:results")[0].data as { imposterWins: boolean }).imposterWins, true);
+});
+
+test("the last chance runs out when the imposter doesn't guess", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  drawAllTurns(table);
+  voteOut(table, table.room.imposterIds[0]);
+  table.advance(VOTE_LOCK_MS);
+  assert.equal(table.room.phase, "lastChance");
+  table.advance(LAST_CHANCE_MS);
+  assert.equal(table.room.phase, "results");
+  assert.equal(table.room.lastChanceId, null);
+});
+
+test("in category mode the imposter only learns the category and any guess close to the real word wins", () => {
+  const table = createTable({ settings: { mode: "category" } });
+  table.send({ type: "start", playerId: "Ana" });
+  const [imposter] = table.room.imposterIds;
+  const [crew] = table.crew();
+
+  const told = table.received(imposter, "word:assigned")[0].data;
+  assert.deepEqual(told, { word: null, category: table.room.category, isImposter: true, guessesLeft: 2, fellowImposters: [] });
+  assert.equal(table.wordOf(crew), table.room.realWord);
+  assert.equal(table.room.fakeWord, null);
+
+  table.send({ type: "guess", playerId: imposter, guess: table.room.realWord!.toLowerCase() });
+  const { mode, fakeWord, category, imposterWins } = table.received(crew, "phase:results")[0].data as Record<string, unknown>;
+  assert.deepEqual({ mode, fakeWord, category, imposterWins }, { mode: "category", fakeWord: null, category: table.room.category, imposterWins: true });
+});
+
+test("in blind mode the imposter gets nothing", () => {
+  const table = createTable({ settings: { mode: "blind" } });
+  table.send({ type: "start", playerId: "Ana" });
+  const [imposter] = table.room.imposterIds;
+  assert.deepEqual(table.received(imposter, "word:assigned")[0].data, { word: null, category: null, isImposter: true, guessesLeft: 2, fellowImposters: [] });
+});
+
+test("in undercover mode the imposter is told their word like everyone else and learns the truth when voted out", () => {
+  const table = createTable({ settings: { mode: "undercover" } });
+  table.send({ type: "start", playerId: "Ana" });
+  const [imposter] = table.room.imposterIds;
+
+  assert.deepEqual(table.received(imposter, "word:assigned")[0].data, { word: table.room.fakeWord, category: null, isImposter: false, guessesLeft: 0, fellowImposters: [] });
+  assert.deepEqual(table.send({ type: "guess", playerId: imposter, guess: table.room.realWord! }), { ok: false, error: "CANNOT_GUESS" });
+
+  drawAllTurns(table);
+  voteOut(table, imposter);
+  table.advance(VOTE_LOCK_MS);
+  assert.equal(table.room.phase, "lastChance");
+  assert.equal((table.received(imposter, "word:assigned").at(-1)!.data as { isImposter: boolean }).isImposter, true);
+
+  const outcome = table.send({ type: "guess", playerId: imposter, guess: table.room.fakeWord! });
+  assert.deepEqual(outcome.ok && outcome.reply, { correct: false, attemptsLeft: 0 });
+  const [results] = table.received("Ana", "phase:results");
+  assert.equal((results.data as { fakeWord: string }).fakeWord, table.room.fakeWord);
+});
+
+test("the same seed plays out the same game", () => {
+  const play = (seed: number) => {
+    const table = createTable({ seed, settings: { turnOrder: "random", imposterCount: 0 } });
+    const rounds = [];
+    for (let round = 1; round <= 3; round++) {
+      table.send({ type: round === 1 ? "start" : "nextRound", playerId: "Ana" });
+      rounds.push({ imposters: table.room.imposterIds, order: table.room.turnOrder, word: table.room.realWord, fake: table.room.fakeWord });
+      table.send({ type: "guess", playerId: table.room.imposterIds[0], guess: table.room.realWord! });
+    }
+    return rounds;
+  };
+
+  assert.deepEqual(play(42), play(42));
+  assert.notDeepEqual(play(42), play(7));
+});
+
+test("only the round that ends the match publishes the seed, and a reseeded room can't be predicted from it", () => {
+  const play = (table: Table, count: number) =>
+    Array.from({ length: count }, () => {
+      table.send({ type: table.room.round === 0 ? "start" : "nextRound", playerId: "Ana" });
+      const dealt = { imposters: table.room.imposterIds, order: table.room.turnOrder, word: table.room.realWord };
+      const ended = table.send({ type: "guess", playerId: table.room.imposterIds[0], guess: table.room.realWord! });
+      const event = ended.ok ? ended.events.find((e) => e.type === "roundEnded") : undefined;
+      return { dealt, seed: event?.type === "roundEnded" ? event.summary.seed : null };
+    });
+  const settings = { turnOrder: "random" as const, matchRounds: 2 };
+
+  const table = createTable({ seed: 42, settings });
+  const match = play(table, 2);
+  assert.deepEqual(match.map((r) => r.seed), [undefined, 42]);
+
+  // with the published seed anyone can replay the match, and without a new seed the next one too
+  const replayed = play(createTable({ seed: match[1].seed!, settings }), 3);
+  assert.deepEqual(replayed.slice(0, 2).map((r) => r.dealt), match.map((r) => r.dealt));
+  table.send({ type: "reseed", seed: 7 });
+  const [next] = play(table, 1);
+  assert.notDeepEqual(next.dealt, replayed[2].dealt);
+});
+
+test("players arriving mid-round watch until the round is over", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+
+  const joined = table.join("Eve");
+  assert.deepEqual(joined.ok && joined.reply, { spectator: true });
+  assert.equal(table.received("Eve", "word:assigned").length, 0);
+  table.send({ type: "stroke", playerId: "Ana", batch: line("a") });
+  assert.equal(table.received("Eve", "draw:points").length, 1);
+  assert.deepEqual(table.send({ type: "seat", playerId: "Eve" }), { ok: false, error: "ROUND_IN_PROGRESS" });
+
+  drawAllTurns(table);
+  assert.deepEqual(table.send({ type: "vote", playerId: "Eve", targetId: "Ana" }), { ok: false, error: "CANNOT_VOTE" });
+  table.send({ type: "guess", playerId: table.room.imposterIds[0], guess: table.room.realWord! });
+
+  assert.equal(table.send({ type: "seat", playerId: "Eve" }).ok, true);
+  assert.ok(table.room.players.some((p) => p.id === "Eve"));
+});
+
+test("refused commands leave the room untouched", () => {
+  const table = createTable();
+  const lobby = table.room;
+  assert.deepEqual(table.send({ type: "start", playerId: "Ben" }), { ok: false, error: "HOST_ONLY" });
+  assert.deepEqual(table.send({ type: "settings", playerId: "Ana", patch: { turnSeconds: 1 } }), {
+    ok: false,
+    error: "SETTING_OUT_OF_RANGE",
+    params: { field: "turnSeconds", min: 5, max: 120 }
+  });
+  assert.equal(table.room, lobby);
+
+  table.send({ type: "start", playerId: "Ana" });
+  const drawing = table.room;
+  assert.deepEqual(table.send({ type: "stroke", playerId: "Ben", batch: line("b") }), { ok: false, error: "NOT_YOUR_TURN" });
+  assert.deepEqual(table.send({ type: "vote", playerId: "Ben", targetId: "Ana" }), { ok: false, error: "CANNOT_VOTE" });
+  assert.equal(table.room, drawing);
+  assert.equal(table.received("Ben", "draw:points").length, 0);
+});
+
+test("a ban keeps the player's profile out, and players without a profile can only be kicked", () => {
+  const table = createTable({ players: ["Ana", "Ben"] });
+  table.send({ type: "join", playerId: "Eve", profileId: "profile-eve", name: "Eve", token: "token-Eve" });
+
+  assert.deepEqual(table.send({ type: "kick", playerId: "Ana", targetId: "Ben", ban: true }), { ok: false, error: "CANNOT_BAN" });
+  assert.ok(table.room.players.some((p) => p.id === "Ben"));
+
+  const banned = table.send({ type: "kick", playerId: "Ana", targetId: "Eve", ban: true });
+  assert.ok(banned.ok && banned.events.some((e) => e.type === "kicked" && e.banned));
+  assert.deepEqual(table.send({ type: "join", playerId: "Eve2", profileId: "profile-eve", name: "Eve", token: "token-Eve2" }), { ok: false, error: "BANNED" });
+});
+
+test("the host leaving hands the room over, and a room with only bots left closes", () => {
+  const table = createTable({ players: ["Ana", "Ben"] });
+  table.send({ type: "addBot", playerId: "Ana", botId: "bot-1" });
+  table.send({ type: "disconnect", playerId: "Ana" });
+  table.send({ type: "leave", playerId: "Ana" });
+  assert.equal(table.room.hostId, "Ben");
+  assert.equal(table.received("Ben", "chat:new").some((r) => (r.data as { system?: { key: string } }).system?.key === "playerLeft"), true);
+
+  const closing = table.send({ type: "leave", playerId: "Ben" });
+  assert.ok(closing.ok);
+  assert.ok(closing.events.some((e) => e.type === "closed"));
+});
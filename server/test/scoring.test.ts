@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { VOTE_LOCK_MS } from "../src/engine.js";
+import type { ScoreBreakdown } from "../src/scoring.js";
+import { createTable, drawAllTurns } from "./table.js";
+
+type Results = { points: Record<string, ScoreBreakdown>; matchOver: boolean; podium: { id: string; points: number }[] | null };
+const results = (table: ReturnType<typeof createTable>) => {
+  const all = table.received("Ana", "phase:results");
+  return all[all.length - 1].data as Results;
+};
+
+test("quick correct votes, surviving and unsuspected drawings score points", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  drawAllTurns(table);
+  const [imposter] = table.room.imposterIds;
+  const [fast, slow, other] = table.crew();
+
+  // `fast` votes right away, `slow` near the end, `other` and the imposter vote for `slow`
+  table.send({ type: "vote", playerId: fast, targetId: imposter });
+  table.advance(50_000);
+  table.send({ type: "vote", playerId: slow, targetId: imposter });
+  table.send({ type: "vote", playerId: other, targetId: slow });
+  table.send({ type: "vote", playerId: imposter, targetId: slow });
+  table.advance(VOTE_LOCK_MS);
+  // tied between the imposter and `slow`: the runoff is a clean vote for the imposter
+  assert.deepEqual([...table.room.voteCandidates!].sort(), [imposter, slow].sort());
+  [fast, slow, other].forEach((id) => table.send({ type: "vote", playerId: id, targetId: imposter }));
+  table.send({ type: "vote", playerId: imposter, targetId: slow });
+  table.advance(VOTE_LOCK_MS);
+  table.advance(20_000);
+
+  const { points } = results(table);
+  assert.deepEqual(points[fast], { correctVotes: 4, speedBonus: 2, survived: 0, correctGuess: 0, unsuspected: 1, total: 7 });
+  assert.deepEqual(points[slow], { correctVotes: 4, speedBonus: 1, survived: 0, correctGuess: 0, unsuspected: 0, total: 5 });
+  assert.deepEqual(points[other], { correctVotes: 2, speedBonus: 1, survived: 0, correctGuess: 0, unsuspected: 1, total: 4 });
+  assert.equal(points[imposter].total, 0);
+});
+
+test("an imposter who guesses the word scores for surviving and the guess", () => {
+  const table = createTable();
+  table.send({ type: "start", playerId: "Ana" });
+  const [imposter] = table.room.imposterIds;
+  table.send({ type: "guess", playerId: imposter, guess: table.room.realWord! });
+
+  const { points } = results(table);
+  assert.equal(points[imposter].survived, 3);
+  assert.equal(points[imposter].correctGuess, 3);
+  // the guess came during Ana's turn, so only her drawing counts, and nobody voted on it
+  assert.equal(points.Ana.unsuspected, 1);
+  assert.equal(points.Ben.unsuspected, 0);
+});
+
+test("a match ends with a podium after the set number of rounds, then starts over", () => {
+  const table = createTable({ settings: { matchRounds: 2 } });
+  table.send({ type: "start", playerId: "Ana" });
+  table.send({ type: "guess", playerId: table.room.imposterIds[0], guess: table.room.realWord! });
+  assert.equal(results(table).matchOver, false);
+  assert.equal(results(table).podium, null);
+
+  table.send({ type: "nextRound", playerId: "Ana" });
+  table.send({ type: "guess", playerId: table.room.imposterIds[0], guess: table.room.realWord! });
+  const { matchOver, podium } = results(table);
+  assert.equal(matchOver, true);
+  assert.equal(podium!.length, 3);
+  assert.ok(podium![0].points >= podium![1].points && podium![1].points >= podium![2].points);
+  assert.equal(table.room.scores.length, 2);
+
+  table.send({ type: "nextRound", playerId: "Ana" });
+  assert.equal(table.room.scores.length, 0);
+  assert.equal(table.room.round, 3);
+});
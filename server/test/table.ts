@@ -0,0 +1,101 @@
+import { createRoom, reduce, type Command, type EngineEvent, type Outcome } from "../src/engine.js";
+import { seededRandom } from "../src/rng.js";
+import type { RoomSettings } from "../src/settings.js";
+import type { RoomState } from "../src/types.js";
+import { loadPacks } from "../src/words.js";
+
+loadPacks();
+
+export type Received = { event: string; data: unknown };
+
+// A room played headlessly: every player is a client with an inbox that gets exactly what the
+// server would send to their sockets. Time only moves through `advance`, which fires the phase
+// timer like the server does, and randomness comes from the seed. Player ids are their names.
+export function createTable({ players = ["Ana", "Ben", "Cem", "Dia"], seed = 1, settings = {} as Partial<RoomSettings> } = {}) {
+  let now = 1_700_000_000_000;
+  let random = seededRandom(seed);
+  const inboxes = new Map<string, Received[]>();
+  const [host, ...guests] = players;
+
+  let room: RoomState = createRoom({ code: "TEST", hostId: host, profileId: null, name: host, token: `token-${host}`, language: "de", seed, now });
+  inboxes.set(host, []);
+
+  const members = () => [...room.players, ...room.spectators].map((p) => p.id);
+  const inbox = (id: string) => inboxes.get(id) ?? inboxes.set(id, []).get(id)!;
+
+  function deliver(actor: string | null, events: EngineEvent[]) {
+    for (const event of events) {
+      if (event.type !== "emit") continue;
+      const to = event.to === "room" ? members() : event.to === "others" ? members().filter((id) => id !== actor) : [event.to.player];
+      to.forEach((id) => inbox(id).push({ event: event.event, data: event.data }));
+    }
+    if (events.some((e) => e.type === "update")) members().forEach((id) => inbox(id).push({ event: "room:update", data: room }));
+  }
+
+  function send(command: Command): Outcome {
+    const outcome = reduce(room, command, { now, random });
+    if (!outcome.ok) return outcome;
+    // like the server, a reseeded room draws from a new generator
+    if (outcome.state.seed !== room.seed && outcome.state.seed !== null) random = seededRandom(outcome.state.seed);
+    room = outcome.state;
+    deliver("playerId" in command ? command.playerId : null, outcome.events);
+    return outcome;
+  }
+
+  // Moves the clock forward, running out every phase whose deadline passes on the way.
+  function advance(ms: number) {
+    const until = now + ms;
+    while (room.turnEndsAt !== null && room.turnEndsAt <= until) {
+      now = Math.max(now, room.turnEndsAt);
+      send({ type: "timeout", deadline: room.turnEndsAt });
+    }
+    now = until;
+  }
+
+  function join(name: string, options: { spectate?: boolean } = {}) {
+    return send({ type: "join", playerId: name, profileId: null, name, token: `token-${name}`, ...options });
+  }
+
+  guests.forEach((name) => join(name));
+  if (Object.keys(settings).length > 0) send({ type: "settings", playerId: host, patch: settings });
+
+  return {
+    send,
+    advance,
+    join,
+    get room() {
+      return room;
+    },
+    get now() {
+      return now;
+    },
+    received(id: string, event?: string) {
+      return inbox(id).filter((r) => !event || r.event === event);
+    },
+    // what the player was told their word is
+    wordOf(id: string) {
+      const assigned = inbox(id).filter((r) => r.event === "word:assigned");
+      return (assigned[assigned.length - 1]?.data as { word: string | null } | undefined)?.word ?? null;
+    },
+    crew() {
+      return room.players.map((p) => p.id).filter((id) => !room.imposterIds.includes(id));
+    }
+  };
+}
+
+export type Table = ReturnType<typeof createTable>;
+
+// A short horizontal line, as the client would send it.
+export function line(id: string) {
+  return { id, color: "#000000", size: 0.01, tool: "brush" as const, points: [1000, 5000, 9000, 5000] };
+}
+
+// Every drawer draws a line and lets their turn run out, then the discussion runs out into voting.
+export function drawAllTurns(table: Table) {
+  while (table.room.phase === "drawing") {
+    const drawer = table.room.currentDrawerId!;
+    table.send({ type: "stroke", playerId: drawer, batch: line(`${drawer}-${table.room.turnIndex}`) });
+    table.advance(table.room.settings.turnSeconds * 1000);
+  }
+  if (table.room.phase === "discussion") table.advance(table.room.settings.discussionSeconds * 1000);
+}
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { test } from "node:test";
+import { createWebhooks, isPrivateAddress, signPayload } from "../src/webhooks.js";
+import { createTable } from "./table.js";
+
+type Request = { headers: IncomingHttpHeaders; body: string };
+
+// A local receiver that answers with the given statuses in turn, then 200.
+async function receiver(statuses: number[] = []) {
+  const requests: Request[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hook`, requests, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+test("deliveries are signed and retried until the receiver accepts them", async () => {
+  const hook = await receiver([500, 503]);
+  const webhooks = createWebhooks({ retryDelaysMs: [0, 0, 0], allowPrivate: true });
+  try {
+    const [delivery] = await webhooks.send("TEST", { urls: [hook.url], secret: "s3cret" }, "round.results", { round: 1, imposterWins: true });
+
+    assert.equal(hook.requests.length, 3);
+    assert.deepEqual({ attempts: delivery.attempts, status: delivery.status, ok: delivery.ok }, { attempts: 3, status: 200, ok: true });
+    for (const { headers, body } of hook.requests) {
+      assert.equal(headers["x-imposter-signature"], signPayload("s3cret", body));
+      assert.equal(headers["x-imposter-event"], "round.results");
+    }
+    const payload = JSON.parse(hook.requests[0].body);
+    assert.deepEqual({ id: payload.id, event: payload.event, code: payload.code, data: payload.data }, {
+      id: delivery.id,
+      event: "round.results",
+      code: "TEST",
+      data: { round: 1, imposterWins: true }
+    });
+    assert.deepEqual(webhooks.deliveries("TEST"), [delivery]);
+  } finally {
+    await hook.close();
+  }
+});
+
+test("client errors are not retried and unreachable receivers end up in the log", async () => {
+  const hook = await receiver([404]);
+  const webhooks = createWebhooks({ retryDelaysMs: [0], timeoutMs: 1_000, allowPrivate: true });
+  try {
+    await webhooks.send("TEST", { urls: [hook.url], secret: "s" }, "voting.started", {});
+    await hook.close();
+    await webhooks.send("TEST", { urls: [hook.url], secret: "s" }, "round.started", {});
+
+    assert.equal(hook.requests.length, 1);
+    const [unreachable, rejected] = webhooks.deliveries("TEST");
+    assert.deepEqual({ event: rejected.event, attempts: rejected.attempts, status: rejected.status, ok: rejected.ok }, { event: "voting.started", attempts: 1, status: 404, ok: false });
+    assert.deepEqual({ event: unreachable.event, attempts: unreachable.attempts, status: unreachable.status, ok: unreachable.ok }, { event: "round.started", attempts: 2, status: null, ok: false });
+    assert.ok(unreachable.error);
+  } finally {
+    webhooks.forget("TEST");
+  }
+});
+
+test("receivers in private networks are refused and redirects are not followed", async () => {
+  const hook = await receiver();
+  const webhooks = createWebhooks({ retryDelaysMs: [0] });
+  try {
+    for (const url of [hook.url, "http://localhost:1/hook", "http://[::ffff:127.0.0.1]:1/", "http://169.254.169.254/latest"]) {
+      const [delivery] = await webhooks.send("TEST", { urls: [url], secret: "s" }, "round.started", {});
+      assert.deepEqual({ attempts: delivery.attempts, ok: delivery.ok }, { attempts: 1, ok: false }, url);
+      assert.match(delivery.error ?? "", /private address/);
+    }
+    assert.equal(hook.requests.length, 0);
+    assert.equal(isPrivateAddress("10.1.2.3"), true);
+    assert.equal(isPrivateAddress("fd00::1"), true);
+    assert.equal(isPrivateAddress("93.184.216.34"), false);
+    assert.equal(isPrivateAddress("::ffff:5db8:d822"), false);
+  } finally {
+    await hook.close();
+  }
+
+  const moved = await receiver([302]);
+  const local = createWebhooks({ retryDelaysMs: [0], allowPrivate: true });
+  try {
+    const [delivery] = await local.send("TEST", { urls: [moved.url], secret: "s" }, "round.started", {});
+    assert.deepEqual({ attempts: delivery.attempts, status: delivery.status, ok: delivery.ok }, { attempts: 1, status: 302, ok: false });
+    assert.equal(moved.requests.length, 1);
+  } finally {
+    await moved.close();
+  }
+});
+
+test("only the host sets webhook URLs and the room keeps its first secret", () => {
+  const table = createTable();
+  assert.deepEqual(table.send({ type: "webhooks", playerId: "Ben", urls: ["http://localhost:9000"], secret: "b" }), { ok: false, error: "HOST_ONLY" });
+  assert.deepEqual(table.send({ type: "webhooks", playerId: "Ana", urls: ["ftp://example.com"], secret: "a" }), {
+    ok: false,
+    error: "INVALID_WEBHOOK",
+    params: { url: "ftp://example.com" }
+  });
+
+  table.send({ type: "webhooks", playerId: "Ana", urls: ["http://localhost:9000/a"], secret: "first" });
+  const outcome = table.send({ type: "webhooks", playerId: "Ana", urls: ["http://localhost:9000/a", "https://example.com/b"], secret: "second" });
+  assert.deepEqual(outcome.ok && outcome.reply, { urls: ["http://localhost:9000/a", "https://example.com/b"], secret: "first" });
+
+  table.send({ type: "webhooks", playerId: "Ana", urls: [], secret: "third" });
+  assert.equal(table.room.webhooks, null);
+});